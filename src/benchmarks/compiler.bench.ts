@@ -0,0 +1,62 @@
+/**
+ * Compares evaluating a DAG through the interpreter (setValue + latestValue)
+ * against the function produced by DAG.compile.  Run with `npm run bench`.
+ */
+import { DAG } from "../core";
+import * as stdlib from "../stdlib";
+
+const ITERATIONS = 100000;
+
+/**
+ * A DAG of "layers" layers of "width" vars each, where each var combines two
+ * vars of the previous layer.  The inputs are the vars of the first layer.
+ */
+function newDAG(layers: number, width: number): [DAG, string[], string[]] {
+  const d = stdlib.PopulateDAG(new DAG());
+  const ops = ["+", "*", "-", "/"];
+  const inputs = [...Array(width)].map((_, i) => `v0_${i}`);
+  inputs.forEach((name, i) => d.newVar(name, d.newNum(i + 1)));
+  for (let l = 1; l < layers; l++) {
+    for (let i = 0; i < width; i++) {
+      const a = d.newVarRef(`v${l - 1}_${i}`);
+      const b = d.newVarRef(`v${l - 1}_${(i + 1) % width}`);
+      const expr = d.newFunc(ops[(l + i) % ops.length], [a, d.newFunc("log", [d.newFunc("+", [b, d.newNum(2)])])]);
+      d.newVar(`v${l}_${i}`, expr);
+    }
+  }
+  const outputs = [...Array(width)].map((_, i) => `v${layers - 1}_${i}`);
+  return [d, inputs, outputs];
+}
+
+function timeIt(label: string, iterations: number, f: (i: number) => void): number {
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < iterations; i++) f(i);
+  const ms = Number(process.hrtime.bigint() - start) / 1e6;
+  const perSec = Math.round((iterations / ms) * 1000);
+  console.log(`${label}: ${iterations} evaluations in ${ms.toFixed(1)}ms (${perSec}/s)`);
+  return ms;
+}
+
+describe("Compiler Benchmarks", () => {
+  for (const [layers, width] of [
+    [5, 4],
+    [20, 10],
+  ]) {
+    test(`${layers} layers of ${width} vars`, () => {
+      const [d, inputs, outputs] = newDAG(layers, width);
+      const iterations = Math.round(ITERATIONS / (layers * width)) * 10;
+      const interpreted = timeIt(`Interpreter (${layers}x${width})`, iterations, (i) => {
+        d.setValue(inputs[0], d.newNum(i));
+        for (const name of outputs) d.getVar(name)?.latestValue;
+      });
+      const f = d.compile(outputs, inputs);
+      const args = inputs.map((name) => d.getVar(name)?.latestValue.value);
+      const compiled = timeIt(`Compiled (${layers}x${width})`, iterations, (i) => {
+        args[0] = i;
+        f(...args);
+      });
+      console.log(`Speedup (${layers}x${width}): ${(interpreted / compiled).toFixed(1)}x`);
+      expect(f(...args)).toEqual(outputs.map((name) => d.getVar(name)?.latestValue.value));
+    });
+  }
+});
@@ -0,0 +1,110 @@
+import { DAG, Expr, ExprType, FuncCall, Value, Var, VarRef } from "./core";
+
+export class DerivativeError extends Error {}
+
+/**
+ * Returns an expression for the derivative of expr with respect to the
+ * variable varname.  References to other variables are differentiated through
+ * their definitions (chain rule).  Functions are differentiated with the
+ * derivative rule they were registered with.
+ */
+export function derivative(expr: Expr, varname: string): Expr {
+  return new Differentiator(expr.dag, varname).derivative(expr);
+}
+
+class Differentiator {
+  // Derivatives of variables already visited by qualified name
+  protected varDerivatives = new Map<string, Expr>();
+  // The variable differentiated with respect to, if it exists
+  protected target: Var | null;
+
+  constructor(public readonly dag: DAG, public readonly varname: string) {
+    this.target = dag.getVar(varname);
+  }
+
+  derivative(expr: Expr): Expr {
+    if (expr.type == ExprType.VALUE) {
+      return this.dag.ZERO;
+    } else if (expr.type == ExprType.VARREF) {
+      return this.varDerivative((expr as VarRef).name, expr.dag);
+    } else if (expr.type == ExprType.FUNCCALL) {
+      return this.callDerivative(expr as FuncCall);
+    }
+    throw new DerivativeError("Cannot differentiate expression: " + expr.type);
+  }
+
+  /**
+   * Derivative of the variable a name refers to in the given DAG (as looked
+   * up by the interpreter).
+   */
+  protected varDerivative(name: string, dag: DAG): Expr {
+    const v = dag.getVar(name);
+    if (v == null) {
+      return this.target == null && dag === this.dag && name == this.varname ? this.dag.ONE : this.dag.ZERO;
+    }
+    if (v === this.target) return this.dag.ONE;
+    let out = this.varDerivatives.get(v.qualifiedName);
+    if (out === undefined) {
+      out = this.derivative(v.value);
+      this.varDerivatives.set(v.qualifiedName, out);
+    }
+    return out;
+  }
+
+  protected callDerivative(call: FuncCall): Expr {
+    const varname = this.target?.qualifiedName ?? this.varname;
+    if (!call.dag.exprContainsVar(call, varname)) {
+      return this.dag.ZERO;
+    }
+    const rule = this.dag.getFuncInfo(call.funcname)?.derivative;
+    if (!rule) {
+      throw new DerivativeError("No derivative rule for function: " + call.funcname);
+    }
+    return rule(
+      call,
+      call.args.map((a) => this.derivative(a)),
+    );
+  }
+}
+
+export function isZero(expr: Expr): boolean {
+  return expr.type == ExprType.VALUE && (expr as Value).value === 0;
+}
+
+export function isOne(expr: Expr): boolean {
+  return expr.type == ExprType.VALUE && (expr as Value).value === 1 && (expr as Value).units == null;
+}
+
+/**
+ * Helpers for building derivative expressions that leave out terms that are
+ * trivially zero or one so results stay readable.
+ */
+export function sum(dag: DAG, terms: Expr[]): Expr {
+  terms = terms.filter((t) => !isZero(t));
+  if (terms.length == 0) return dag.ZERO;
+  return terms.length == 1 ? terms[0] : dag.newFunc("+", terms);
+}
+
+export function difference(dag: DAG, first: Expr, rest: Expr[]): Expr {
+  rest = rest.filter((t) => !isZero(t));
+  if (rest.length == 0) return first;
+  if (isZero(first)) return product(dag, [dag.newNum(-1), sum(dag, rest)]);
+  return dag.newFunc("-", [first, ...rest]);
+}
+
+export function product(dag: DAG, factors: Expr[]): Expr {
+  if (factors.some(isZero)) return dag.ZERO;
+  factors = factors.filter((f) => !isOne(f));
+  if (factors.length == 0) return dag.ONE;
+  return factors.length == 1 ? factors[0] : dag.newFunc("*", factors);
+}
+
+export function quotient(dag: DAG, num: Expr, den: Expr): Expr {
+  if (isZero(num)) return dag.ZERO;
+  return isOne(den) ? num : dag.newFunc("/", [num, den]);
+}
+
+export function power(dag: DAG, base: Expr, exponent: Expr): Expr {
+  if (isZero(exponent)) return dag.ONE;
+  return isOne(exponent) ? base : dag.newFunc("**", [base, exponent]);
+}
@@ -0,0 +1,171 @@
+import { DAG, Expr, ExprType, FuncCall, FuncType, Value, ValueType, VarRef } from "./core";
+import { FloatBackend } from "./numeric";
+
+export class CompileError extends Error {}
+
+/**
+ * A DAG compiled into a plain JS function.  It is called with the raw values
+ * of the inputs (in the order they were given to DAG.compile) and returns the
+ * raw values of the outputs.
+ */
+export interface CompiledFunction {
+  (...inputs: any[]): any[];
+  // The generated source, handy for debugging
+  source: string;
+}
+
+/**
+ * Compiles the expressions of a set of output variables into a single JS
+ * function via code generation.  Each call becomes one local in the generated
+ * function so shared subexpressions and variables are computed once per
+ * invocation.  Calls to functions registered with an inline template are
+ * inlined and all others call the registered FuncType directly.
+ *
+ * Compiled functions work on raw scalar values so values with units and
+ * arrays are not supported.  Nor are lazy functions as all arguments are
+ * computed up front.  Errors are thrown rather than returned as error
+ * values and division by zero gives Infinity as in JS.  Error and pending
+ * values returned by calls that are not inlined are passed on unchanged, as
+ * their ErrorInfo or Pending, rather than stopping the computation.  As
+ * inlined calls compute with JS numbers only DAGs using floats (see
+ * DAG.numeric) can be compiled.  References to unknown variables cannot be
+ * compiled either.
+ */
+export class Compiler {
+  protected lines: string[] = [];
+  // Names of the locals holding the values of variables and calls
+  protected varLocals = new Map<string, string>();
+  protected callLocals = new Map<number, string>();
+  protected funcs: FuncType[] = [];
+  protected funcIndexes = new Map<string, number>();
+  // Vars currently being compiled - to catch cycles
+  protected visiting = new Set<string>();
+
+  constructor(public readonly dag: DAG) {}
+
+  compile(outputs: string[], inputs: string[]): CompiledFunction {
+    if (!(this.dag.numeric instanceof FloatBackend)) {
+      throw new CompileError(`Cannot compile DAGs using the ${this.dag.numeric.name} numeric backend`);
+    }
+    this.lines = [];
+    this.varLocals = new Map(inputs.map((name, i) => [this.qualifiedName(this.dag, name), "$in" + i]));
+    this.callLocals.clear();
+    this.funcs = [];
+    this.funcIndexes.clear();
+    for (const name of inputs) {
+      const v = this.dag.getVar(name);
+      if (v != null && v.value.type == ExprType.VALUE && (v.value as Value).units != null) {
+        throw new CompileError(`Cannot compile input with units: ${name} (${(v.value as Value).units})`);
+      }
+    }
+    const results = outputs.map((name) => this.compileVar(name));
+    const params = inputs.map((_, i) => "$in" + i).join(", ");
+    const source = [
+      `return function compiled(${params}) {`,
+      ...this.lines.map((l) => "  " + l),
+      `  return [${results.join(", ")}];`,
+      "}",
+    ].join("\n");
+    const out = new Function("$dag", "$Value", "$funcs", '"use strict";\n' + source)(this.dag, Value, this.funcs);
+    out.source = source;
+    return out as CompiledFunction;
+  }
+
+  /**
+   * Returns the JS source for the value of the given expression, adding any
+   * statements needed to compute it.
+   */
+  compileExpr(expr: Expr): string {
+    if (expr.type == ExprType.VALUE) {
+      return this.compileValue(expr as Value);
+    } else if (expr.type == ExprType.VARREF) {
+      return this.compileVar((expr as VarRef).name, expr.dag);
+    } else if (expr.type == ExprType.FUNCCALL) {
+      return this.compileCall(expr as FuncCall);
+    }
+    throw new CompileError("Cannot compile expression: " + expr.type);
+  }
+
+  protected compileValue(value: Value): string {
+    if (value.units != null) {
+      throw new CompileError(`Cannot compile values with units: ${value.value} (${value.units})`);
+    }
+    const v = value.value;
+    if (typeof v === "number") {
+      return v < 0 || Object.is(v, -0) ? `(${v == 0 ? "-0" : v})` : String(v);
+    }
+    if (Array.isArray(v)) {
+      throw new CompileError("Cannot compile array values: " + JSON.stringify(v));
+    }
+    if (v == null || typeof v === "boolean" || typeof v === "string") {
+      return JSON.stringify(v);
+    }
+    throw new CompileError("Cannot compile value: " + String(v));
+  }
+
+  /**
+   * Name of the variable a name refers to in the given DAG relative to the
+   * root so that references from different scopes share locals.
+   */
+  protected qualifiedName(dag: DAG, name: string): string {
+    return dag.getVar(name)?.qualifiedName ?? dag.qualify(name);
+  }
+
+  /**
+   * Returns the local holding the value of the variable a name refers to in
+   * the given DAG (as looked up by the interpreter).
+   */
+  protected compileVar(name: string, dag: DAG = this.dag): string {
+    const qualified = this.qualifiedName(dag, name);
+    let local = this.varLocals.get(qualified);
+    if (local === undefined) {
+      const v = dag.getVar(name);
+      // Rather than diverge from the interpreter which gives an error value
+      if (v == null) throw new CompileError("Unknown variable: " + name);
+      if (this.visiting.has(qualified)) {
+        throw new CompileError("Circular reference for variable: " + qualified);
+      }
+      this.visiting.add(qualified);
+      const value = this.compileExpr(v.value);
+      this.visiting.delete(qualified);
+      local = "$v" + this.varLocals.size;
+      this.lines.push(`const ${local} = ${value}; // ${qualified}`);
+      this.varLocals.set(qualified, local);
+    }
+    return local;
+  }
+
+  protected compileCall(call: FuncCall): string {
+    let local = this.callLocals.get(call.uuid);
+    if (local !== undefined) return local;
+    const info = this.dag.getFuncInfo(call.funcname);
+    if (info == null) {
+      throw new CompileError("Unknown function: " + call.funcname);
+    }
+    if (info.lazy) {
+      throw new CompileError("Cannot compile lazy functions: " + call.funcname);
+    }
+    if (info.returnType === ValueType.ARRAY) {
+      throw new CompileError("Cannot compile functions returning arrays: " + call.funcname);
+    }
+    this.dag.checkArity(call.funcname, call.args.length);
+    const args = call.args.map((a) => this.compileExpr(a));
+    let value: string;
+    if (info.inline) {
+      value = info.inline(args);
+    } else {
+      let index = this.funcIndexes.get(info.name);
+      if (index === undefined) {
+        index = this.funcs.length;
+        this.funcs.push(info.func);
+        this.funcIndexes.set(info.name, index);
+      }
+      const values = args.map((a) => `new $Value($dag, ${a})`).join(", ");
+      value = `$funcs[${index}]($dag, [${values}]).value`;
+    }
+    local = "$t" + this.callLocals.size;
+    this.lines.push(`const ${local} = ${value};`);
+    this.callLocals.set(call.uuid, local);
+    return local;
+  }
+}
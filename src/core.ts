@@ -1,7 +1,14 @@
+import { CompiledFunction, Compiler } from "./compiler";
+import { FLOAT, NumericBackend } from "./numeric";
+import { Bounds, SolverResult, findRoot, leastSquares } from "./solver";
+import { TraceNode, TraceRecorder } from "./trace";
+import { Interval, SampleSummary, SimulateOptions, evalBounds, intervals, isUncertain, simulate } from "./uncertainty";
+
 export enum ExprType {
   VARREF = "VarRef",
   VALUE = "Value",
   FUNCCALL = "FuncCall",
+  LAMBDA = "Lambda",
   OPEXPR = "OpExpr",
 }
 
@@ -9,19 +16,439 @@ export enum ValueType {
   BOOL,
   INT,
   STRING,
+  FLOAT,
+  NULL,
+  ANY,
+  ARRAY,
+  FUNCTION,
+  RECORD,
+  ERROR,
+  PENDING,
 }
 
 export type FuncType = (dag: DAG, args: Value[]) => Value;
 
+/**
+ * Functions whose results are only available later, eg lookups of exchange
+ * rates.  The signal is aborted when the result is no longer needed (see
+ * DAG.regAsyncFunc).
+ */
+export type AsyncFuncType = (dag: DAG, args: Value[], signal: AbortSignal) => Promise<Value>;
+
+/**
+ * Functions that are passed their arguments unevaluated, eg if(c, a, b).
+ * Arguments must be evaluated with value(i) (rather than via the Exprs) so
+ * that only arguments actually used are tracked as inputs of the call.
+ */
+export type LazyFuncType = (dag: DAG, args: Expr[], value: (index: number) => Value) => Value;
+
+/**
+ * Types accepted by a function parameter - a single type or a union of types.
+ */
+export type ParamType = ValueType | ValueType[];
+
+/**
+ * Type returned by a function - either fixed or derived from the types of
+ * the arguments it is called with.
+ */
+export type ReturnType = ValueType | ((argTypes: ValueType[]) => ValueType);
+
+/**
+ * Returns the derivative of a call to a function given the derivatives of
+ * each of its arguments with respect to the same variable.
+ */
+export type DerivativeRule = (call: FuncCall, argDerivatives: Expr[]) => Expr;
+
+/**
+ * Optional description of a function provided when it is registered.
+ */
+export interface FuncSignature {
+  /**
+   * Names of each parameter.  For variadic functions the last name describes
+   * all remaining arguments.
+   */
+  paramNames?: string[];
+
+  /**
+   * Types of each parameter.  The last type applies to all remaining arguments.
+   */
+  paramTypes?: ParamType[];
+  returnType?: ReturnType;
+
+  /**
+   * Minimum number of arguments.  Defaults to the number of paramNames.
+   */
+  minArgs?: number;
+
+  /**
+   * Maximum number of arguments.  Defaults to the number of paramNames
+   * (or no limit if the function is variadic).
+   */
+  maxArgs?: number;
+  variadic?: boolean;
+
+  /**
+   * Whether the function always returns the same value for the same arguments
+   * and has no side effects.
+   */
+  pure?: boolean;
+  doc?: string;
+
+  /**
+   * Whether the function is called with error values (see ErrorInfo) like
+   * any other.  Otherwise calls with an error argument return the error
+   * without calling the function.
+   */
+  handlesErrors?: boolean;
+
+  /**
+   * Rule for symbolically differentiating calls to this function.
+   */
+  derivative?: DerivativeRule;
+
+  /**
+   * Values of the argument at the given index where the function changes
+   * direction or is undefined, eg 0 for the divisor of a division.  Calls
+   * with uncertain arguments (see Interval) are also evaluated at those
+   * within the bounds of the arguments.
+   */
+  turningPoints?: (index: number) => any[];
+
+  /**
+   * Template for the JS source of a call to this function given the JS source
+   * of its (already evaluated, unitless) arguments, eg (args) => args.join(" + ").
+   * Used by DAG.compile to inline calls instead of calling the function.
+   */
+  inline?: (args: string[]) => string;
+}
+
+/**
+ * A function registered in a DAG along with its signature.
+ */
+export interface FuncInfo extends FuncSignature {
+  name: string;
+  func: FuncType;
+  // Set for functions registered with regLazyFunc
+  lazy?: LazyFuncType;
+  // Set for functions defined in terms of their parameters with defineFunc
+  body?: Expr;
+  // Set for functions registered with regAsyncFunc
+  async?: AsyncFuncType;
+}
+
+/**
+ * Location of an expression in the source it was parsed from.
+ */
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Definition of a variable, eg as found in a document of formulas.
+ */
+export interface Definition {
+  name: string;
+  expr: Expr;
+  desc: string;
+  span: SourceSpan | null;
+  // Set for definitions of functions, eg margin(rev, cost) = (rev - cost) / rev
+  params?: string[];
+}
+
+/**
+ * Anything that can parse a document of formulas into definitions.
+ */
+export interface DocumentParser {
+  parseDocument(input: string): Definition[];
+}
+
+/**
+ * JSON form of expressions:
+ *
+ * - Values: `{ "value": 3 }` or with units `{ "value": 3, "units": "m/s" }`
+ * - Numbers of numeric backends other than floats (and arrays of them) as
+ *   their exact text: `{ "num": "0.1" }` or `{ "num": ["1/3", "2"] }`
+ * - Variable references: `{ "var": "x" }`
+ * - Function calls: `{ "func": "+", "args": [ ... ] }`
+ * - Lambdas: `{ "lambda": ["x"], "body": ... }`
+ */
+export type ExprJSON =
+  | { value: any; units?: string }
+  | { num: NumJSON; units?: string }
+  | { var: string }
+  | { func: string; args: ExprJSON[] }
+  | { lambda: string[]; body: ExprJSON };
+
+export type NumJSON = string | NumJSON[];
+
+/**
+ * Version of the schema produced by DAG.toJSON.
+ */
+export const DAG_JSON_VERSION = 1;
+
+/**
+ * JSON form of a DAG.  Functions are referred to by name and are resolved
+ * against the functions registered in the DAG the JSON is loaded into.
+ *
+ * ```
+ * {
+ *   "version": 1,
+ *   "numeric": "decimal",
+ *   "units": ["m/s", ...],
+ *   "unitConversions": [{ "from": "km", "to": "m", "factor": 1000 }, ...],
+ *   "functions": [{ "name": "f", "params": ["x"], "desc": "...", "body": <ExprJSON> }, ...],
+ *   "vars": [{ "name": "x", "desc": "...", "expr": <ExprJSON> }, ...],
+ *   "scopes": [{ "name": "tax", "dag": <DAGJSON> }, ...]
+ * }
+ * ```
+ *
+ * Only functions defined with DAG.defineFunc are included in "functions".
+ * Scopes are the DAGs mounted in this one (see DAG.mount).  "numeric" is the
+ * name of the numeric backend (see DAG.numeric) numbers are written for and
+ * must match the backend of the DAG the JSON is loaded into.  JSON without
+ * it only holds floats.
+ */
+export interface DAGJSON {
+  version: number;
+  numeric?: string;
+  units: string[];
+  unitConversions: { from: string; to: string; factor: number }[];
+  functions?: { name: string; params: string[]; desc?: string; body: ExprJSON }[];
+  vars: { name: string; desc?: string; expr: ExprJSON }[];
+  scopes?: { name: string; dag: DAGJSON }[];
+}
+
+/**
+ * Options for DAG.solve.
+ */
+export interface SolveOptions {
+  /**
+   * Names of the (numeric) variables that may be changed.
+   */
+  vary: string[];
+  /**
+   * Optional [min, max] range for each varied variable.  For a single variable
+   * a range that brackets the solution guarantees convergence.
+   */
+  bounds?: { [varname: string]: Bounds };
+  tolerance?: number;
+  maxIterations?: number;
+  /**
+   * Whether to set the varied variables to the solution once one is found
+   * (default true).
+   */
+  apply?: boolean;
+}
+
+/**
+ * Outcome of DAG.solve along with diagnostics about how it was reached.
+ */
+export interface SolveResult extends Omit<SolverResult, "x"> {
+  // Values of the varied variables at the best point found
+  values: { [varname: string]: number };
+  // Whether the solution was applied to the DAG
+  applied: boolean;
+}
+
+/**
+ * Signature of callbacks notified when the value of a variable changes.
+ */
+export type ChangeListener = (v: Var, oldValue: Value, newValue: Value) => void;
+
+/**
+ * Hook notified as expressions are brought up to date (see DAG.tracer).
+ * Calls are nested, ie the inputs of an expression are entered and exited
+ * between the enter and exit calls of the expression itself.  Inputs are
+ * usually reported twice: once when checked for changes and again (as
+ * cached) when read by the evaluation of the expression.
+ */
+export interface Tracer {
+  enter(expr: Expr): void;
+  /**
+   * Called with the value of the expression (or the error thrown computing
+   * it) and whether the value of its last evaluation was reused.
+   */
+  exit(expr: Expr, value: Value | null, cached: boolean, error: Error | null): void;
+}
+
+/**
+ * A change to the expression of a variable.  A null expression denotes a
+ * variable that does not exist, ie before it was created.
+ */
+export interface Edit {
+  dag: DAG;
+  name: string;
+  before: Expr | null;
+  after: Expr | null;
+}
+
+/**
+ * The edits committed by a transaction as recorded in the undo history.
+ */
+export interface HistoryEntry {
+  label: string;
+  edits: Edit[];
+}
+
+/**
+ * State of the transaction in progress (see DAG.transaction).
+ */
+interface Transaction {
+  edits: Edit[];
+  // Qualified names of the variables changed so far
+  changed: Set<string>;
+  // Values of affected variables before the transaction started
+  lastValues: Map<Var, Value | null>;
+}
+
 /**
  * General way of denoting units.
  */
 export class Units {
   public constructor(public num: string[], public den: string[]) {}
+
+  /**
+   * A key that is identical for all units with the same numerator and
+   * denominator irrespective of the order of their parts.
+   */
+  get key(): string {
+    const sortednum = [...this.num];
+    sortednum.sort();
+    const sortedden = [...this.den];
+    sortedden.sort();
+    return sortednum.join(":") + "/" + sortedden.join(":");
+  }
+
+  /**
+   * Returns the units in a form that can be parsed back with DAG.parseUnits,
+   * eg "kg*m/s*s".
+   */
+  toString(): string {
+    const num = this.num.length == 0 ? "1" : this.num.join("*");
+    return this.den.length == 0 ? num : num + "/" + this.den.join("*");
+  }
 }
 
 export class CircularReferenceError extends Error {}
 export class InvalidRefError extends Error {}
+export class UnitsError extends Error {}
+export class ArityError extends Error {}
+export class SchemaError extends Error {}
+export class SolveError extends Error {}
+export class ArrayError extends Error {}
+export class RecordError extends Error {}
+export class RecursionError extends Error {}
+export class ScopeError extends Error {}
+export class TransactionError extends Error {}
+
+/**
+ * Thrown by functions called with values they cannot work with, eg a string
+ * where a number is expected.  Evaluates to #TYPE error values unlike other
+ * errors (eg a TypeError from a bug in a function) which are rethrown.
+ */
+export class ValueTypeError extends Error {}
+
+/**
+ * Codes of error values, spreadsheet style.
+ */
+export enum ErrorCode {
+  // Reference to an undefined variable
+  REF = "#REF",
+  DIV0 = "#DIV/0",
+  // Values of the wrong type, units or shape for a function
+  TYPE = "#TYPE",
+  // Runaway recursion
+  CYCLE = "#CYCLE",
+  // Call to an unknown function
+  NAME = "#NAME",
+  // Failure of an asynchronous function, eg a lookup
+  NA = "#N/A",
+}
+
+/**
+ * The value of error values (see DAG.newError).  Rather than being thrown,
+ * failures evaluating a variable become its value, which is passed on by
+ * the functions using it (unless they handle errors, eg iferror) so only
+ * the variables depending on the failure are affected.
+ */
+export class ErrorInfo {
+  /**
+   * The origin is the qualified name of the variable the error came from,
+   * or null until the error reaches a variable.
+   */
+  constructor(
+    public readonly code: ErrorCode,
+    public readonly message: string,
+    public readonly origin: string | null = null,
+  ) {}
+
+  equals(another: any): boolean {
+    return (
+      another instanceof ErrorInfo &&
+      this.code == another.code &&
+      this.message == another.message &&
+      this.origin == another.origin
+    );
+  }
+
+  toString(): string {
+    return `${this.code}: ${this.message}`;
+  }
+}
+
+/**
+ * The value of calls to asynchronous functions (see DAG.regAsyncFunc) that
+ * are still in flight.  Like error values, pending values are passed on by
+ * the functions using them so variables depending on the call are pending
+ * too until it settles.
+ */
+export class Pending {
+  /**
+   * Resolved once the call settles or is cancelled.  Never rejected.
+   */
+  readonly promise: Promise<void>;
+
+  /**
+   * Variables whose values are currently this pending value.  The call is
+   * cancelled when there are none left.
+   */
+  readonly waiters = new Set<Var>();
+  protected controller = new AbortController();
+  protected resolve: () => void;
+  protected settled = false;
+
+  constructor(public readonly funcname: string, protected onCancel: () => void) {
+    this.promise = new Promise((resolve) => (this.resolve = resolve));
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get cancelled(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  settle(): void {
+    this.settled = true;
+    this.resolve();
+  }
+
+  /**
+   * Aborts the call unless it has settled already.
+   */
+  cancel(): void {
+    if (this.settled || this.cancelled) return;
+    this.controller.abort();
+    this.onCancel();
+    this.resolve();
+  }
+
+  toString(): string {
+    return "#PENDING";
+  }
+}
 
 /**
  * Our DAG is where all equations, variables, functions are registered and
@@ -35,7 +462,6 @@ export class InvalidRefError extends Error {}
  *    propogated
  */
 export class DAG {
-  lastModified = 0;
   NULL = new Value(this, null);
   ZERO = new Value(this, 0);
   ONE = new Value(this, 1);
@@ -45,159 +471,1625 @@ export class DAG {
   // Stores all variables
   protected vars = new Map<string, Var>();
   protected unitsMap = new Map<string, Units>();
-  protected funcs = new Map<string, FuncType>();
+  // unit name -> [unit it converts to, number of those units in one of this unit]
+  protected unitConversions = new Map<string, [string, number]>();
+  protected funcs = new Map<string, FuncInfo>();
+
+  // Reverse dependency index - var name -> names of vars whose expressions refer to it
+  protected dependentsIndex = new Map<string, Set<string>>();
+  protected listeners = new Map<string, ChangeListener[]>();
+  protected globalListeners: ChangeListener[] = [];
+
+  // Structurally unique expressions - see intern
+  protected interned = new Map<string, Expr>();
+
+  // The DAG this one is mounted in (see mount) and the name it is mounted as
+  parent: DAG | null = null;
+  prefix = "";
+  protected mounts = new Map<string, DAG>();
+
+  /**
+   * Maximum depth of nested calls to functions defined with defineFunc, to
+   * stop runaway recursion.
+   */
+  maxCallDepth = 256;
+  protected callDepth = 0;
+
+  /**
+   * Incremented each time a function is (re)defined with defineFunc (in
+   * this DAG or any mounted in it).  Only maintained by the root DAG.
+   */
+  funcsVersion = 0;
+
+  /**
+   * Incremented each time a call to an asynchronous function settles.  Only
+   * maintained by the root DAG.
+   */
+  asyncVersion = 0;
+
+  // Calls to asynchronous functions (by function and arguments) in flight
+  // or their results once settled - only maintained by the root DAG
+  protected asyncCalls = new Map<string, Pending | Value>();
+
+  /**
+   * Maximum number of results of asynchronous functions kept.
+   */
+  asyncCacheLimit = 1000;
+
+  /**
+   * Called with errors thrown updating the variables waiting for a call to
+   * an asynchronous function once it settles, eg by listeners, as there is
+   * no caller to throw them to, eg to log them.  Ignored if not set.  Only
+   * used by the root DAG.
+   */
+  onAsyncError: ((err: unknown) => void) | null = null;
+
+  /**
+   * Notified of the evaluation of every expression in this DAG and those
+   * mounted in it.  Only the tracer of the root DAG is used.
+   */
+  tracer: Tracer | null = null;
+
+  // Transaction in progress and undo/redo history - only maintained by the root DAG
+  protected currentTransaction: Transaction | null = null;
+  protected undoStack: HistoryEntry[] = [];
+  protected redoStack: HistoryEntry[] = [];
+
+  /**
+   * Maximum number of transactions kept for undo.
+   */
+  historyLimit = 100;
+
+  /**
+   * How numeric literals are parsed and arithmetic is done, eg exact
+   * decimals with new DecimalBackend().  Scopes created with newScope use the
+   * backend of the DAG they are created in.
+   */
+  numeric: NumericBackend = FLOAT;
+
+  /**
+   * Creates an empty DAG mounted under the given name (see mount) for
+   * defining variables and functions local to part of a model.  Names not
+   * defined in the scope are looked up in this DAG.
+   */
+  newScope(name: string): DAG {
+    const scope = new DAG();
+    scope.numeric = this.numeric;
+    return this.mount(name, scope);
+  }
+
+  /**
+   * Mounts another DAG under the given prefix so that its variables can be
+   * referred to here as prefix.name, eg tax.rate.  The mounted DAG keeps its
+   * own variables, functions and units but looks up names (and functions
+   * and unit conversions) it does not define in this DAG.  Changes to
+   * variables are propagated to dependents in all DAGs mounted together.
+   */
+  mount(prefix: string, dag: DAG): DAG {
+    if (!/^[^.\s]+$/.test(prefix)) {
+      throw new ScopeError("Invalid scope name: " + prefix);
+    }
+    if (this.mounts.has(prefix)) {
+      throw new ScopeError("Scope already exists: " + prefix);
+    }
+    if (dag.parent != null) {
+      throw new ScopeError("DAG is already mounted as: " + dag.parent.qualify(dag.prefix));
+    }
+    if (this.isWithin(dag)) {
+      throw new ScopeError("Cannot mount a DAG inside itself");
+    }
+    dag.parent = this;
+    dag.prefix = prefix;
+    this.mounts.set(prefix, dag);
+    // Names in the mounted DAG may now refer to variables here and vice versa
+    for (const v of this.root.allVars()) {
+      if (v.dag.exprContainsVar(v.value, v.name)) {
+        this.mounts.delete(prefix);
+        dag.parent = null;
+        dag.prefix = "";
+        throw new CircularReferenceError("Circular reference for variable: " + v.qualifiedName);
+      }
+    }
+    this.root.reindex();
+    this.root.propagateChanges(...dag.allVars().map((v) => v.qualifiedName));
+    return dag;
+  }
+
+  /**
+   * The DAG at the top of the DAGs this one is mounted in.
+   */
+  get root(): DAG {
+    return this.parent == null ? this : this.parent.root;
+  }
+
+  /**
+   * Returns the given name qualified by the prefixes this DAG is mounted
+   * under, ie as it is referred to from the root DAG.
+   */
+  qualify(name: string): string {
+    return this.parent == null ? name : this.parent.qualify(this.prefix + "." + name);
+  }
+
+  /**
+   * Returns the DAG mounted under the given (possibly dotted) path here or
+   * in the DAGs this one is mounted in.
+   */
+  getScope(path: string): DAG | null {
+    const out = path.split(".").reduce<DAG | null>((scope, name) => scope?.mounts.get(name) || null, this);
+    return out ?? this.parent?.getScope(path) ?? null;
+  }
+
+  /**
+   * Whether this DAG is the given one or is mounted (at any depth) in it.
+   */
+  protected isWithin(dag: DAG): boolean {
+    return this === dag || (this.parent != null && this.parent.isWithin(dag));
+  }
+
+  /**
+   * Returns all variables in this DAG and the DAGs mounted in it.
+   */
+  protected allVars(): Var[] {
+    const out = [...this.vars.values()];
+    for (const dag of this.mounts.values()) out.push(...dag.allVars());
+    return out;
+  }
+
+  /**
+   * Returns the DAG owning a variable with the given name and the name of the
+   * variable there, ie the scope of qualified names.
+   */
+  protected scopeOf(varname: string): [DAG, string] {
+    const dot = varname.lastIndexOf(".");
+    const scope = dot > 0 ? this.getScope(varname.substring(0, dot)) : null;
+    return scope == null ? [this, varname] : [scope, varname.substring(dot + 1)];
+  }
+
+  /**
+   * Rebuilds the dependents index of this (root) DAG, eg after a new variable
+   * or mount changes which variables names refer to.
+   */
+  protected reindex(): void {
+    this.dependentsIndex.clear();
+    for (const v of this.allVars()) {
+      for (const dep of v.dag.resolvedRefs(v.value)) this.addDependent(dep, v.qualifiedName);
+    }
+  }
+
+  /**
+   * Returns the qualified names of the variables an expression refers to.
+   */
+  protected resolvedRefs(expr: Expr): string[] {
+    return [...this.varsReferencedBy(expr)].map((name) => this.qualifiedNameOf(name));
+  }
+
+  /**
+   * Returns the name of the variable a name refers to here as referred to
+   * from the root DAG.  Undefined names are assumed to be local.
+   */
+  protected qualifiedNameOf(name: string): string {
+    return this.getVar(name)?.qualifiedName ?? this.qualify(name);
+  }
+
+  protected addDependent(dep: string, varname: string): void {
+    let deps = this.dependentsIndex.get(dep);
+    if (!deps) {
+      deps = new Set<string>();
+      this.dependentsIndex.set(dep, deps);
+    }
+    deps.add(varname);
+  }
+
+  /**
+   * Registers units.
+   */
+  newUnits(num: string[], den: string[]) {
+    const units = new Units([...(num || [])], [...(den || [])]);
+    const key = units.key;
+    let out = this.unitsMap.get(key) || null;
+    if (out == null) {
+      out = units;
+      this.unitsMap.set(key, out);
+    }
+    return out;
+  }
+
+  /**
+   * Parses units of the form "kg*m/s^2" (or "kg m/s s").  Parts before the
+   * first "/" are in the numerator and the rest in the denominator.
+   * Returns null for dimensionless units.
+   */
+  parseUnits(units: string): Units | null {
+    const num: string[] = [];
+    const den: string[] = [];
+    units.split("/").forEach((part, index) => {
+      for (const term of part.split(/[\s*]+/)) {
+        if (term == "" || term == "1") continue;
+        const [name, power] = term.split("^");
+        const count = power === undefined ? 1 : parseInt(power);
+        if (!/^[A-Za-z_]\w*$/.test(name) || isNaN(count) || count < 0) {
+          throw new UnitsError("Invalid units: " + units);
+        }
+        for (let i = 0; i < count; i++) {
+          (index == 0 ? num : den).push(name);
+        }
+      }
+    });
+    return this.reduceUnits(num, den);
+  }
+
+  /**
+   * Cancels out parts common to the numerator and denominator and returns the
+   * registered units or null if the result is dimensionless.
+   */
+  reduceUnits(num: string[], den: string[]): Units | null {
+    const remaining = [...den];
+    const outnum: string[] = [];
+    for (const n of num) {
+      const index = remaining.indexOf(n);
+      if (index >= 0) remaining.splice(index, 1);
+      else outnum.push(n);
+    }
+    if (outnum.length == 0 && remaining.length == 0) return null;
+    return this.newUnits(outnum, remaining);
+  }
+
+  mulUnits(a: Units | null, b: Units | null): Units | null {
+    if (a == null) return b;
+    if (b == null) return a;
+    return this.reduceUnits([...a.num, ...b.num], [...a.den, ...b.den]);
+  }
+
+  divUnits(a: Units | null, b: Units | null): Units | null {
+    if (b == null) return a;
+    return this.reduceUnits([...(a?.num || []), ...b.den], [...(a?.den || []), ...b.num]);
+  }
+
+  /**
+   * Raises units to a power.  Powers must be integers or of the form 1/n in
+   * which case every part of the units must occur a multiple of n times.
+   */
+  powUnits(a: Units | null, power: number): Units | null {
+    if (a == null || power == 0) return null;
+    const num = power > 0 ? a.num : a.den;
+    const den = power > 0 ? a.den : a.num;
+    power = Math.abs(power);
+    if (Number.isInteger(power)) {
+      const repeat = (parts: string[]) => ([] as string[]).concat(...Array(power).fill(parts));
+      return this.reduceUnits(repeat(num), repeat(den));
+    }
+    const root = Math.round(1 / power);
+    if (Math.abs(1 / power - root) > 1e-9) {
+      throw new UnitsError(`Cannot raise (${a}) to the power ${power}`);
+    }
+    const takeRoot = (parts: string[]) => {
+      const counts = new Map<string, number>();
+      for (const p of parts) counts.set(p, (counts.get(p) || 0) + 1);
+      const out: string[] = [];
+      for (const [p, count] of counts) {
+        if (count % root != 0) {
+          throw new UnitsError(`Cannot take root ${root} of (${a})`);
+        }
+        for (let i = 0; i < count / root; i++) out.push(p);
+      }
+      return out;
+    };
+    return this.reduceUnits(takeRoot(num), takeRoot(den));
+  }
+
+  /**
+   * Registers a conversion between two units, eg regUnitConversion("km", "m", 1000)
+   * specifies that 1 km is 1000 m.
+   */
+  regUnitConversion(from: string, to: string, factor: number): this {
+    if (from == to || this.baseUnit(to)[0] == from) {
+      throw new UnitsError(`Circular conversion between ${from} and ${to}`);
+    }
+    this.unitConversions.set(from, [to, factor]);
+    return this;
+  }
+
+  /**
+   * Returns the unit the given unit ultimately converts to along with the
+   * number of those units in one of the given unit.
+   */
+  baseUnit(unit: string): [string, number] {
+    let factor = 1;
+    for (let next = this.conversionOf(unit); next; next = this.conversionOf(unit)) {
+      unit = next[0];
+      factor *= next[1];
+    }
+    return [unit, factor];
+  }
+
+  protected conversionOf(unit: string): [string, number] | null {
+    return this.unitConversions.get(unit) || this.parent?.conversionOf(unit) || null;
+  }
+
+  /**
+   * Returns the factor to multiply a quantity in the "from" units by to
+   * obtain it in the "to" units.  Throws a UnitsError if the units are not
+   * compatible.
+   */
+  unitsFactor(from: Units | null, to: Units | null): number {
+    if (from === to || from?.key === to?.key) return 1;
+    const toBase = (units: Units | null): [Units | null, number] => {
+      let factor = 1;
+      const num = (units?.num || []).map((u) => {
+        const [base, f] = this.baseUnit(u);
+        factor *= f;
+        return base;
+      });
+      const den = (units?.den || []).map((u) => {
+        const [base, f] = this.baseUnit(u);
+        factor /= f;
+        return base;
+      });
+      return [this.reduceUnits(num, den), factor];
+    };
+    const [fromBase, fromFactor] = toBase(from);
+    const [toBaseUnits, toFactor] = toBase(to);
+    if (fromBase?.key !== toBaseUnits?.key) {
+      throw new UnitsError(`Incompatible units: (${from || 1}) and (${to || 1})`);
+    }
+    return fromFactor / toFactor;
+  }
+
+  /**
+   * Returns the given value converted to the given units.
+   */
+  convertValue(value: Value, units: Units | null): Value {
+    const factor = this.unitsFactor(value.units, units);
+    if (factor == 1 && value.units === units) return value;
+    return this.newNum(value.value * factor, units);
+  }
+
+  getFunc(name: string): FuncType | null {
+    return this.getFuncInfo(name)?.func || null;
+  }
+
+  /**
+   * Returns the function registered with the given name here or in the DAGs
+   * this one is mounted in.
+   */
+  getFuncInfo(name: string): FuncInfo | null {
+    return this.funcs.get(name) || this.parent?.getFuncInfo(name) || null;
+  }
+
+  regFunc(name: string, f: FuncType, signature: FuncSignature = {}): this {
+    this.funcs.set(name, { ...signature, name: name, func: f });
+    return this;
+  }
+
+  /**
+   * Registers a function whose arguments are only evaluated when it asks for
+   * them (see LazyFuncType).  It can also be called with evaluated arguments
+   * via getFunc.
+   */
+  regLazyFunc(name: string, f: LazyFuncType, signature: FuncSignature = {}): this {
+    const func = (dag: DAG, args: Value[]) => f(dag, args, (i) => args[i] || dag.NULL);
+    this.funcs.set(name, { ...signature, name: name, func: func, lazy: f });
+    return this;
+  }
+
+  /**
+   * Registers a function returning a promise of its result, eg a lookup of
+   * an exchange rate.  Calls evaluate to a pending value (see Pending) until
+   * the promise settles at which point the variables waiting for it are
+   * recomputed and their listeners notified.  Failures become #N/A errors
+   * (or the usual error values for errors like ValueTypeError).
+   *
+   * Results are kept by function name and argument values so calls with the
+   * same arguments, even from different variables, share a single call
+   * whether in flight or settled (see refreshAsync).  Calls are cancelled,
+   * by aborting the signal passed to the function, once no variable is
+   * waiting for them, eg when the inputs of the variables calling the
+   * function change while it is in flight.
+   */
+  regAsyncFunc(name: string, f: AsyncFuncType, signature: FuncSignature = {}): this {
+    const func = (dag: DAG, args: Value[]) => dag.root.callAsync(name, f, dag, args);
+    this.funcs.set(name, { ...signature, name: name, func: func, async: f });
+    return this;
+  }
+
+  /**
+   * Returns the result of a call to an asynchronous function if it has
+   * settled or a pending value otherwise, making the call if it is not in
+   * flight already.
+   */
+  protected callAsync(name: string, f: AsyncFuncType, dag: DAG, args: Value[]): Value {
+    const key = name + "(" + args.map((a) => a.structuralKey).join(",") + ")";
+    const existing = this.asyncCalls.get(key);
+    if (existing instanceof Value) return existing;
+    if (existing != null) return new Value(dag, existing);
+    const pending = new Pending(name, () => {
+      if (this.asyncCalls.get(key) === pending) this.asyncCalls.delete(key);
+    });
+    this.asyncCalls.set(key, pending);
+    const settle = (value: Value) => {
+      if (pending.cancelled) return;
+      this.asyncCalls.delete(key);
+      this.asyncCalls.set(key, value);
+      for (const [k, entry] of this.asyncCalls) {
+        if (this.asyncCalls.size <= this.asyncCacheLimit) break;
+        if (entry instanceof Value) this.asyncCalls.delete(k);
+      }
+      this.asyncVersion++;
+      pending.settle();
+      try {
+        this.propagateChanges(...[...pending.waiters].map((v) => v.qualifiedName));
+      } catch (err) {
+        this.onAsyncError?.(err);
+      }
+    };
+    let result: Promise<Value>;
+    try {
+      result = Promise.resolve(f(dag, args, pending.signal));
+    } catch (err) {
+      // Settled like any other failure so the call is not pending forever
+      result = Promise.reject(err);
+    }
+    result.then(settle, (err) => settle(asyncErrorValueOf(dag, err)));
+    return new Value(dag, pending);
+  }
+
+  /**
+   * Discards the results of calls to the given asynchronous function (or
+   * all of them) so they are made again, eg when exchange rates have been
+   * updated.  Variables calling them are recomputed.
+   */
+  refreshAsync(funcname: string | null = null): void {
+    const root = this.root;
+    for (const [key, entry] of root.asyncCalls) {
+      if (entry instanceof Value && (funcname == null || key.startsWith(funcname + "("))) {
+        root.asyncCalls.delete(key);
+      }
+    }
+    root.asyncVersion++;
+    const callers = root
+      .allVars()
+      .filter((v) =>
+        [...v.dag.funcsCalledBy(v.value)].some((name) =>
+          funcname == null ? v.dag.getFuncInfo(name)?.async != null : name == funcname,
+        ),
+      );
+    root.propagateChanges(...callers.map((v) => v.qualifiedName));
+  }
+
+  /**
+   * Evaluates the given variables waiting for any calls to asynchronous
+   * functions they depend on to settle.  Independent calls are in flight at
+   * the same time, eg:
+   *
+   * ```
+   * const { total } = await dag.evaluate(["total"]);
+   * ```
+   *
+   * Never settles if an asynchronous function never does.
+   */
+  async evaluate(varnames: string[]): Promise<{ [varname: string]: Value }> {
+    const vars = varnames.map((name) => {
+      const v = this.getVar(name);
+      if (v == null) throw new InvalidRefError("Invalid reference: " + name);
+      return v;
+    });
+    for (;;) {
+      const values = vars.map((v) => v.latestValue);
+      const pending = values.filter((v) => v.isPending).map((v) => (v.value as Pending).promise);
+      if (pending.length == 0) {
+        const out: { [varname: string]: Value } = {};
+        varnames.forEach((name, i) => (out[name] = values[i]));
+        return out;
+      }
+      // Calls depending on the first to settle can be made while others are in flight
+      await Promise.race(pending);
+    }
+  }
+
+  /**
+   * Defines (or redefines) a function as an expression of its parameters, eg
+   * margin(rev, cost) = (rev - cost) / rev.  Bodies may call other functions
+   * (including themselves, up to maxCallDepth nested calls) but may only
+   * refer to their own parameters.  Variables calling the function (directly
+   * or via other functions) are recomputed.
+   */
+  defineFunc(name: string, params: string[], body: Expr, desc = ""): this {
+    const existing = this.funcs.get(name);
+    if (existing != null && existing.body == null) {
+      throw new InvalidRefError("Cannot redefine registered function: " + name);
+    }
+    if (new Set(params).size != params.length) {
+      throw new InvalidRefError("Duplicate parameter in function: " + name);
+    }
+    for (const ref of this.varsReferencedBy(body)) {
+      if (!params.includes(ref)) {
+        throw new InvalidRefError(`Undefined parameter in function ${name}: ${ref}`);
+      }
+    }
+    const func = (dag: DAG, args: Value[]): Value => {
+      if (dag.callDepth >= dag.maxCallDepth) {
+        throw new RecursionError(`Maximum call depth of ${dag.maxCallDepth} exceeded calling ${name}`);
+      }
+      dag.callDepth++;
+      try {
+        return substitute(body, new Map(params.map((p, i) => [p, args[i]]))).latestValue;
+      } finally {
+        dag.callDepth--;
+      }
+    };
+    this.funcs.set(name, { name: name, paramNames: params, doc: desc, body: body, func: func });
+    const root = this.root;
+    root.funcsVersion++;
+    const callers = root.allVars().filter((v) => v.dag.funcsCalledBy(v.value).has(name));
+    root.propagateChanges(...callers.map((v) => v.qualifiedName));
+    return this;
+  }
+
+  /**
+   * Returns the names of functions called by the given expression, including
+   * those called in turn by functions defined with defineFunc.
+   */
+  funcsCalledBy(expr: Expr | null, out = new Set<string>()): Set<string> {
+    if (expr == null) return out;
+    if (expr.type == ExprType.FUNCCALL) {
+      const call = expr as FuncCall;
+      if (!out.has(call.funcname)) {
+        out.add(call.funcname);
+        this.funcsCalledBy(this.getFuncInfo(call.funcname)?.body || null, out);
+      }
+      for (const arg of call.args) this.funcsCalledBy(arg, out);
+    } else if (expr.type == ExprType.LAMBDA) {
+      this.funcsCalledBy((expr as Lambda).body, out);
+    }
+    return out;
+  }
+
+  /**
+   * Returns all registered functions sorted by name.
+   */
+  listFuncs(): FuncInfo[] {
+    const out = [...this.funcs.values()];
+    out.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    return out;
+  }
+
+  /**
+   * Returns the minimum and maximum number of arguments a function accepts.
+   * Functions registered without a signature accept any number of arguments.
+   */
+  arityOf(name: string): [number, number] {
+    const info = this.getFuncInfo(name);
+    const numParams = info?.paramNames?.length;
+    const min = info?.minArgs ?? numParams ?? 0;
+    const max = info?.variadic
+      ? Infinity
+      : info?.maxArgs ?? (numParams === undefined ? Infinity : Math.max(min, numParams));
+    return [min, max];
+  }
+
+  /**
+   * Ensures that the given number of arguments can be passed to a function.
+   * Calls to unregistered functions are not checked.
+   */
+  checkArity(name: string, numArgs: number): void {
+    const [min, max] = this.arityOf(name);
+    if (numArgs < min || numArgs > max) {
+      const expected = min == max ? `${min}` : max == Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+      throw new ArityError(`${name} expects ${expected} argument(s) but found ${numArgs}`);
+    }
+  }
+
+  /**
+   * Creates a new function in this dag.
+   */
+  newFunc(name: string, args: Expr[]): FuncCall {
+    this.checkArity(name, args.length);
+    return new FuncCall(this, name, args);
+  }
+
+  /**
+   * Creates a boolean literal in this dag.
+   */
+  newBool(value: boolean): Value {
+    return value ? this.TRUE : this.FALSE;
+  }
+
+  /**
+   * Creates a numeric literal in this dag.
+   */
+  newNum(value: number, units: Units | null = null) {
+    // Not shared as parsed literals carry their own spans.  Use intern to
+    // share structurally identical expressions.
+    return new Value(this, value, units);
+  }
+
+  /**
+   * Creates a numeric literal from its source text, eg 0.1, as a number of
+   * the numeric backend of this dag.
+   */
+  parseNum(text: string, units: Units | null = null): Value {
+    return new Value(this, this.numeric.parse(text), units);
+  }
+
+  /**
+   * Creates an array of the given values, all converted to the units of the
+   * first value.
+   */
+  newArray(values: Value[]): Value {
+    const units = values.length > 0 ? values[0].units : null;
+    return new Value(
+      this,
+      values.map((v) => (v.units === units ? v.value : this.convertValue(v, units).value)),
+      units,
+    );
+  }
+
+  /**
+   * Creates a record from a host object (eg parsed JSON) whose fields may
+   * also be Values.  Records hold plain values so fields cannot have units.
+   */
+  newRecord(fields: { [name: string]: any }): Value {
+    const out: { [name: string]: any } = {};
+    for (const name in fields) {
+      const field = fields[name];
+      if (field instanceof Value) {
+        if (field.units != null) {
+          throw new RecordError(`Record fields cannot have units: ${name} (${field.units})`);
+        }
+        out[name] = field.value;
+      } else {
+        out[name] = field;
+      }
+    }
+    return new Value(this, out);
+  }
+
+  newLambda(params: string[], body: Expr): Lambda {
+    return new Lambda(this, params, body);
+  }
+
+  newError(code: ErrorCode, message: string): Value {
+    return new Value(this, new ErrorInfo(code, message));
+  }
+
+  /**
+   * Value around a string literal.
+   */
+  newStr(value: string) {
+    return new Value(this, value);
+  }
+
+  /**
+   * Creates a new variable in this DAG.
+   */
+  newVar(varname: string, expr: Expr | null) {
+    return this.setValue(varname, expr);
+  }
+
+  /**
+   * Defines a set of variables together.  Definitions may refer to each other
+   * in any order and are applied so that every variable is defined after the
+   * variables it refers to.
+   */
+  defineAll(definitions: Definition[]): Var[] {
+    return this.transaction(() => this.defineAllNow(definitions));
+  }
+
+  protected defineAllNow(definitions: Definition[]): Var[] {
+    // Functions first as they cannot refer to variables
+    for (const def of definitions) {
+      if (def.params) this.defineFunc(def.name, def.params, def.expr, def.desc);
+    }
+    definitions = definitions.filter((d) => !d.params);
+    const byName = new Map(definitions.map((d) => [d.name, d]));
+    const visited = new Set<string>();
+    const visiting = new Set<string>();
+    const out: Var[] = [];
+    const visit = (def: Definition) => {
+      if (visited.has(def.name)) return;
+      if (visiting.has(def.name)) {
+        throw new CircularReferenceError("Circular reference for variable: " + def.name);
+      }
+      visiting.add(def.name);
+      for (const dep of this.varsReferencedBy(def.expr)) {
+        const depDef = byName.get(dep);
+        if (depDef) visit(depDef);
+      }
+      visiting.delete(def.name);
+      visited.add(def.name);
+      const v = this.setValue(def.name, def.expr);
+      v.desc = def.desc;
+      out.push(v);
+    };
+    definitions.forEach(visit);
+    return out;
+  }
+
+  /**
+   * Parses a document of formulas with the given parser and defines every
+   * variable in it.
+   */
+  load(text: string, parser: DocumentParser): Var[] {
+    return this.defineAll(parser.parseDocument(text));
+  }
+
+  /**
+   * Returns the single instance of expressions structurally identical to the
+   * given one, so that shared subexpressions are only evaluated once.  The
+   * arguments of function calls are expected to be interned already.
+   */
+  intern(expr: Expr): Expr {
+    const key = expr.structuralKey;
+    const out = this.interned.get(key);
+    if (out) return out;
+    this.interned.set(key, expr);
+    return expr;
+  }
+
+  /**
+   * Returns the JSON form of this DAG (see DAGJSON).
+   */
+  toJSON(): DAGJSON {
+    return {
+      version: DAG_JSON_VERSION,
+      numeric: this.numeric.name,
+      units: [...this.unitsMap.values()].map((u) => u.toString()),
+      unitConversions: [...this.unitConversions.entries()].map(([from, [to, factor]]) => ({
+        from: from,
+        to: to,
+        factor: factor,
+      })),
+      functions: [...this.funcs.values()]
+        .filter((f) => f.body != null)
+        .map((f) => ({ name: f.name, params: f.paramNames || [], desc: f.doc, body: f.body!.toJSON() })),
+      vars: [...this.vars.values()].map((v) => ({ name: v.name, desc: v.desc, expr: v.value.toJSON() })),
+      scopes: [...this.mounts.entries()].map(([name, dag]) => ({ name: name, dag: dag.toJSON() })),
+    };
+  }
+
+  /**
+   * Loads a DAG from its JSON form into the given DAG (which would typically
+   * have all functions referred to already registered).  Scopes are loaded
+   * into the DAGs already mounted under their names or into new scopes.  Throws a SchemaError
+   * if the JSON is malformed, an InvalidRefError for unknown functions and a
+   * CircularReferenceError if variables refer to each other in a cycle.
+   */
+  static fromJSON(json: any, dag: DAG = new DAG()): DAG {
+    if (json == null || typeof json !== "object") {
+      throw new SchemaError("DAG JSON must be an object");
+    }
+    if (json.version !== DAG_JSON_VERSION) {
+      throw new SchemaError("Unsupported DAG JSON version: " + json.version);
+    }
+    if (json.numeric !== undefined && json.numeric !== dag.numeric.name) {
+      throw new SchemaError(
+        `DAG JSON is for the ${JSON.stringify(json.numeric)} numeric backend but the DAG uses "${dag.numeric.name}"`,
+      );
+    }
+    for (const field of ["units", "unitConversions", "functions", "vars", "scopes"]) {
+      if (json[field] !== undefined && !Array.isArray(json[field])) {
+        throw new SchemaError(`"${field}" must be an array`);
+      }
+    }
+    for (const units of json.units || []) {
+      if (typeof units !== "string") throw new SchemaError("Units must be strings: " + JSON.stringify(units));
+      dag.parseUnits(units);
+    }
+    for (const conv of json.unitConversions || []) {
+      if (typeof conv?.from !== "string" || typeof conv?.to !== "string" || typeof conv?.factor !== "number") {
+        throw new SchemaError("Invalid unit conversion: " + JSON.stringify(conv));
+      }
+      dag.regUnitConversion(conv.from, conv.to, conv.factor);
+    }
+    for (const scope of json.scopes || []) {
+      if (typeof scope?.name !== "string") throw new SchemaError("Invalid scope: " + JSON.stringify(scope));
+      DAG.fromJSON(scope.dag, dag.mounts.get(scope.name) || dag.newScope(scope.name));
+    }
+    const definitions: Definition[] = [];
+    const funcs = json.functions || [];
+    for (const f of funcs) {
+      if (typeof f?.name !== "string" || !Array.isArray(f.params) || f.params.some((p: any) => typeof p !== "string")) {
+        throw new SchemaError("Invalid function: " + JSON.stringify(f));
+      }
+      // Registered up front so that bodies can call any of them
+      dag.defineFunc(f.name, f.params, dag.NULL);
+    }
+    for (const f of funcs) {
+      definitions.push({
+        name: f.name,
+        params: f.params,
+        desc: f.desc || "",
+        expr: dag.exprFromJSON(f.body),
+        span: null,
+      });
+    }
+    const names = new Set<string>();
+    for (const v of json.vars || []) {
+      if (typeof v?.name !== "string") throw new SchemaError("Invalid var: " + JSON.stringify(v));
+      if (names.has(v.name)) throw new SchemaError("Duplicate var: " + v.name);
+      names.add(v.name);
+      definitions.push({ name: v.name, desc: v.desc || "", expr: dag.exprFromJSON(v.expr), span: null });
+    }
+    dag.defineAll(definitions);
+    return dag;
+  }
+
+  /**
+   * Creates an expression from its JSON form (see ExprJSON).
+   */
+  exprFromJSON(json: any): Expr {
+    if (json == null || typeof json !== "object") {
+      throw new SchemaError("Invalid expression: " + JSON.stringify(json));
+    }
+    if ("value" in json) {
+      if (json.units === undefined) {
+        return typeof json.value === "boolean" ? this.newBool(json.value) : new Value(this, json.value);
+      }
+      if (typeof json.units !== "string") throw new SchemaError("Units must be strings: " + JSON.stringify(json));
+      return new Value(this, json.value, this.parseUnits(json.units));
+    } else if ("num" in json) {
+      if (json.units !== undefined && typeof json.units !== "string") {
+        throw new SchemaError("Units must be strings: " + JSON.stringify(json));
+      }
+      const units = json.units === undefined ? null : this.parseUnits(json.units);
+      return new Value(this, this.numFromJSON(json.num), units);
+    } else if ("var" in json) {
+      if (typeof json.var !== "string") throw new SchemaError("Invalid var reference: " + JSON.stringify(json));
+      return this.newVarRef(json.var);
+    } else if ("func" in json) {
+      if (typeof json.func !== "string" || !Array.isArray(json.args)) {
+        throw new SchemaError("Invalid function call: " + JSON.stringify(json));
+      }
+      if (this.getFunc(json.func) == null) {
+        throw new InvalidRefError("Unknown function: " + json.func);
+      }
+      return this.newFunc(
+        json.func,
+        json.args.map((a: any) => this.exprFromJSON(a)),
+      );
+    } else if ("lambda" in json) {
+      if (!Array.isArray(json.lambda) || json.lambda.some((p: any) => typeof p !== "string")) {
+        throw new SchemaError("Invalid lambda: " + JSON.stringify(json));
+      }
+      return this.newLambda(json.lambda, this.exprFromJSON(json.body));
+    }
+    throw new SchemaError("Invalid expression: " + JSON.stringify(json));
+  }
+
+  protected numFromJSON(json: any): any {
+    if (Array.isArray(json)) return json.map((n) => this.numFromJSON(n));
+    if (typeof json !== "string") throw new SchemaError("Invalid number: " + JSON.stringify(json));
+    try {
+      return this.numeric.parse(json);
+    } catch (_) {
+      throw new SchemaError(`Invalid ${this.numeric.name} number: ${json}`);
+    }
+  }
+
+  /**
+   * Returns an independent copy of this DAG's functions, units, variables and
+   * mounted DAGs (without any listeners).
+   */
+  clone(): DAG {
+    return DAG.fromJSON(this.toJSON(), this.cloneFuncs());
+  }
+
+  /**
+   * Returns a new DAG with the functions registered here, with DAGs mounted
+   * here cloned the same way.
+   */
+  protected cloneFuncs(): DAG {
+    const out = new DAG();
+    out.numeric = this.numeric;
+    // Defined functions are recreated from the JSON with bodies in the copy
+    for (const [name, info] of this.funcs) {
+      if (info.body == null) out.funcs.set(name, info);
+    }
+    for (const [prefix, dag] of this.mounts) out.mount(prefix, dag.cloneFuncs());
+    return out;
+  }
+
+  /**
+   * Finds values for the "vary" variables so that the target variable
+   * evaluates to targetValue (converted into its units if it has any), eg
+   * "what must price be for margin to be 0.3".  A single variable is solved
+   * with a root finder and several with a least squares minimiser.
+   *
+   * Candidates are evaluated on a clone of this DAG so neither variables nor
+   * listeners here are affected until a solution is found, at which point
+   * (unless options.apply is false) the varied variables are set to it.  A
+   * failure to converge is reported in the result instead of being thrown.
+   */
+  solve(targetVar: string, targetValue: number | Value, options: SolveOptions): SolveResult {
+    const target = this.getVar(targetVar);
+    if (target == null) throw new SolveError("Unknown target variable: " + targetVar);
+    if (options.vary.length == 0) throw new SolveError("No variables to vary");
+    const inputs = options.vary.map((name) => {
+      const v = this.getVar(name);
+      if (v == null) throw new SolveError("Unknown variable: " + name);
+      if (v.value.type != ExprType.VALUE || typeof (v.value as Value).value !== "number") {
+        throw new SolveError("Only variables with numeric values can be varied: " + name);
+      }
+      if (!this.exprContainsVar(target.value, name)) {
+        throw new SolveError(`${targetVar} does not depend on ${name}`);
+      }
+      return v.value as Value;
+    });
+    const goal = typeof targetValue === "number" ? new Value(this, targetValue) : targetValue;
+
+    const scratch = this.clone();
+    const residual = (x: number[]): number => {
+      try {
+        x.forEach((xi, i) => scratch.setValue(options.vary[i], new Value(scratch, xi, inputs[i].units)));
+        const value = scratch.getVar(targetVar)!.latestValue;
+        if (typeof value.value !== "number") return NaN;
+        const units = goal.units == null ? value.units : goal.units;
+        return value.value * scratch.unitsFactor(value.units, units) - goal.value;
+      } catch (e) {
+        // Candidates outside the domain of some function are simply undefined
+        return NaN;
+      }
+    };
+    const bounds = options.vary.map((name) => options.bounds?.[name] || null);
+    const x0 = inputs.map((v) => v.value as number);
+    const solverOptions = { tolerance: options.tolerance, maxIterations: options.maxIterations };
+    const { x, ...result } =
+      x0.length == 1
+        ? findRoot((xi) => residual([xi]), x0[0], bounds[0], solverOptions)
+        : leastSquares((x) => [residual(x)], x0, bounds, solverOptions);
+
+    const applied = result.converged && options.apply !== false;
+    if (applied) {
+      this.transaction(() => {
+        x.forEach((xi, i) => this.setValue(options.vary[i], new Value(this, xi, inputs[i].units)));
+      }, "solve " + targetVar);
+    }
+    const values: { [varname: string]: number } = {};
+    options.vary.forEach((name, i) => (values[name] = x[i]));
+    return { ...result, values: values, applied: applied };
+  }
+
+  /**
+   * Compiles the given output variables into a JS function taking the raw
+   * values of the inputs and returning the raw values of the outputs, eg:
+   *
+   * ```
+   * const f = dag.compile(["margin"], ["price", "cost"]);
+   * f(10, 7) // [0.3]
+   * ```
+   *
+   * All other variables are compiled with their current expressions.  The
+   * function is much faster to evaluate repeatedly than setting inputs and
+   * reading outputs but does not observe later changes to the DAG.
+   */
+  compile(outputs: string[], inputs: string[]): CompiledFunction {
+    return new Compiler(this).compile(outputs, inputs);
+  }
+
+  /**
+   * Evaluates a variable recording every function call and variable
+   * reference visited along with its value, whether it was cached and how
+   * long it took, eg to find out why a value is 0.
+   */
+  explain(varname: string): TraceNode {
+    const v = this.getVar(varname);
+    if (v == null) throw new InvalidRefError("Invalid reference: " + varname);
+    return new TraceRecorder(this.root).explain(v);
+  }
+
+  /**
+   * Returns the bounds of the values of the given variables.  Variables
+   * declared with uncertain values, eg churn = interval(0.03, 0.05) or
+   * growth = normal(0.1, 0.02), make every value computed from them an
+   * Interval bounding the possible results (see FuncSignature.turningPoints)
+   * and the bounds of certain values are the values themselves.
+   */
+  intervals(varnames: string[]): { [varname: string]: Interval } {
+    return intervals(this, varnames);
+  }
+
+  /**
+   * Evaluates the given variables for a number of random draws of the
+   * variables declared with uncertain values (intervals are drawn from
+   * uniformly) and returns summary statistics of their values, eg:
+   *
+   * ```
+   * dag.simulate(["profit"], { samples: 10000, seed: 42 }).profit.percentiles[5]
+   * ```
+   *
+   * Draws are evaluated on a clone of this DAG so neither variables nor
+   * listeners here are affected.  Parameters of distributions must not be
+   * uncertain themselves.
+   */
+  simulate(varnames: string[], options: SimulateOptions = {}): { [varname: string]: SampleSummary } {
+    return simulate(this, varnames, options);
+  }
+
+  /**
+   * Sets a (possibly nested) field of a variable holding a record, eg
+   * setField("order", ["item", "qty"], 3).  Formulas reading other fields are
+   * not recomputed as the values they read do not change (early cutoff).
+   */
+  setField(varname: string, path: string[], value: any): Var {
+    const v = this.getVar(varname);
+    const record = v?.value.type == ExprType.VALUE ? (v.value as Value).value : undefined;
+    if (v == null || !isRecord(record)) {
+      throw new RecordError("Not a record variable: " + varname);
+    }
+    if (value instanceof Value) {
+      if (value.units != null) {
+        throw new RecordError(`Record fields cannot have units: ${path.join(".")} (${value.units})`);
+      }
+      value = value.value;
+    }
+    const update = (rec: any, i: number): any => {
+      if (i == path.length) return value;
+      if (!isRecord(rec)) throw new RecordError("Not a record: " + [varname, ...path.slice(0, i)].join("."));
+      return { ...rec, [path[i]]: update(rec[path[i]], i + 1) };
+    };
+    return this.setValue(varname, new Value(this, update(record, 0)));
+  }
+
+  newVarRef(varname: string): VarRef {
+    return new VarRef(this, varname);
+  }
+
+  /**
+   * Returns the names of all variables in this DAG.
+   */
+  varNames(): string[] {
+    return [...this.vars.keys()];
+  }
+
+  /**
+   * Returns the variable with the given name.  Qualified names (eg tax.rate)
+   * are looked up in mounted DAGs and names not found here are looked up in
+   * the DAGs this one is mounted in.  If ensure is set a variable is created
+   * here if this DAG does not have one.
+   */
+  getVar(varname: string, ensure = false): Var | null {
+    let out = this.vars.get(varname) || null;
+    if (out == null && ensure) {
+      // create an empty var
+      out = new Var(this, varname, this.NULL);
+      this.vars.set(varname, out);
+    }
+    return out ?? this.findVar(varname) ?? this.parent?.getVar(varname) ?? null;
+  }
+
+  /**
+   * Looks up a variable here or (for qualified names) in mounted DAGs only.
+   */
+  protected findVar(varname: string): Var | null {
+    const out = this.vars.get(varname);
+    if (out != null) return out;
+    const dot = varname.indexOf(".");
+    if (dot <= 0) return null;
+    return this.mounts.get(varname.substring(0, dot))?.findVar(varname.substring(dot + 1)) || null;
+  }
+
+  /**
+   * Sets the expression of a variable, creating it if needed.  Qualified
+   * names set variables in mounted DAGs and all other names are set here
+   * (hiding any variables of the same name in enclosing DAGs).  Outside of
+   * transactions each call is undone on its own, labelled "set <varname>".
+   */
+  setValue(varname: string, newValue: Expr | null): Var {
+    const [scope, name] = this.scopeOf(varname);
+    if (scope !== this) return scope.setValue(name, newValue);
+    this.transaction(() => this.applyEdit(varname, newValue || this.NULL), "set " + this.qualify(varname));
+    return this.vars.get(varname) as Var;
+  }
+
+  /**
+   * Sets the expression of a variable in this DAG, or removes the variable
+   * if expr is null, recording the edit in the current transaction.
+   * Circular references are only checked when the transaction commits.
+   */
+  protected applyEdit(varname: string, expr: Expr | null, record = true): void {
+    const root = this.root;
+    const old = this.vars.get(varname) || null;
+    if (record) {
+      root.currentTransaction?.edits.push({ dag: this, name: varname, before: old?.value || null, after: expr });
+    }
+    // remove references from the old expression first
+    if (old != null) {
+      for (const dep of this.resolvedRefs(old.value)) {
+        root.dependentsIndex.get(dep)?.delete(old.qualifiedName);
+      }
+    }
+    if (expr == null) {
+      if (old == null) return;
+      const dependents = root.dependentsIndex.get(old.qualifiedName) || [];
+      this.vars.delete(varname);
+      // References to the variable may now resolve to one in an enclosing DAG
+      if (root.mounts.size > 0) root.reindex();
+      root.propagateChanges(old.qualifiedName, ...dependents);
+      return;
+    }
+    const v = this.getVar(varname, true) as Var;
+    // A new variable may hide ones of the same name referred to from other scopes
+    if (old == null && root.mounts.size > 0) root.reindex();
+    for (const dep of this.resolvedRefs(expr)) {
+      root.addDependent(dep, v.qualifiedName);
+    }
+    v.value = expr;
+    this.propagateChanges(varname);
+  }
+
+  /**
+   * Runs fn so that all changes it makes to variables (here and in DAGs
+   * mounted together) are applied as a single atomic edit.  Edits are only
+   * checked for circular references once fn returns and listeners are only
+   * notified after that.  If fn or the checks throw, every edit is rolled
+   * back and the error rethrown.  Committed transactions are recorded in the
+   * undo history under the given label.
+   *
+   * Transactions may be nested in which case they are part of the outermost
+   * one, but an error thrown out of a nested transaction only rolls back the
+   * edits made within it.
+   */
+  transaction<T>(fn: () => T, label = ""): T {
+    if (this.parent != null) return this.root.transaction(fn, label);
+    const outer = this.currentTransaction;
+    if (outer != null) {
+      const savepoint = outer.edits.length;
+      try {
+        return fn();
+      } catch (err) {
+        this.rollback(outer.edits.splice(savepoint));
+        throw err;
+      }
+    }
+    const tx: Transaction = { edits: [], changed: new Set(), lastValues: new Map() };
+    this.currentTransaction = tx;
+    let out: T;
+    try {
+      out = fn();
+      for (const edit of tx.edits) {
+        const v = edit.dag.vars.get(edit.name);
+        if (v != null && edit.dag.exprContainsVar(v.value, edit.name)) {
+          throw new CircularReferenceError("Circular reference for variable: " + edit.name);
+        }
+      }
+    } catch (err) {
+      this.rollback(tx.edits);
+      tx.lastValues.forEach((value, v) => v.revert(value));
+      throw err;
+    } finally {
+      this.currentTransaction = null;
+    }
+    // Undo and redo replay edits without recording them
+    if (tx.edits.length > 0) {
+      this.undoStack.push({ label: label, edits: tx.edits });
+      if (this.undoStack.length > this.historyLimit) {
+        this.undoStack.splice(0, this.undoStack.length - this.historyLimit);
+      }
+      this.redoStack = [];
+    }
+    const affected = this.affectedVars(...tx.changed)
+      .map((name) => this.getVar(name))
+      .filter((v) => v != null) as Var[];
+    this.notifyChanges(affected.map((v) => [v, tx.lastValues.has(v) ? tx.lastValues.get(v) || null : v.lastValue]));
+    return out;
+  }
+
+  /**
+   * Reverts the given edits (of the current transaction) in reverse order.
+   */
+  protected rollback(edits: Edit[]): void {
+    for (let i = edits.length - 1; i >= 0; i--) {
+      edits[i].dag.applyEdit(edits[i].name, edits[i].before, false);
+    }
+  }
+
+  /**
+   * Reverts the most recently committed transaction.  Returns its label or
+   * null if there was nothing to undo.
+   */
+  undo(): string | null {
+    if (this.parent != null) return this.root.undo();
+    this.checkNotInTransaction();
+    const entry = this.undoStack.pop();
+    if (entry == null) return null;
+    this.transaction(() => this.rollback(entry.edits));
+    this.redoStack.push(entry);
+    return entry.label;
+  }
+
+  /**
+   * Reapplies the most recently undone transaction.  Returns its label or
+   * null if there was nothing to redo.
+   */
+  redo(): string | null {
+    if (this.parent != null) return this.root.redo();
+    this.checkNotInTransaction();
+    const entry = this.redoStack.pop();
+    if (entry == null) return null;
+    this.transaction(() => entry.edits.forEach((edit) => edit.dag.applyEdit(edit.name, edit.after, false)));
+    this.undoStack.push(entry);
+    return entry.label;
+  }
+
+  protected checkNotInTransaction(): void {
+    if (this.currentTransaction != null) {
+      throw new TransactionError("Cannot undo or redo within a transaction");
+    }
+  }
+
+  get canUndo(): boolean {
+    return this.root.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.root.redoStack.length > 0;
+  }
+
+  /**
+   * Labels of the transactions that can be undone and redone, the most
+   * recent last.
+   */
+  history(): { undo: string[]; redo: string[] } {
+    const root = this.root;
+    return { undo: root.undoStack.map((e) => e.label), redo: root.redoStack.map((e) => e.label) };
+  }
+
+  /**
+   * Forgets all transactions recorded for undo and redo, eg after loading a
+   * model.
+   */
+  clearHistory(): void {
+    const root = this.root;
+    root.undoStack = [];
+    root.redoStack = [];
+  }
 
   /**
-   * Registers units.
+   * Registers a listener that is called each time the value of the given
+   * variable changes.  The variable is evaluated (if it exists) so that
+   * listeners are always notified with its previous value.
+   * Returns a function that removes the listener.
    */
-  newUnits(num: string[], den: string[]) {
-    const sortednum = [...(num || [])];
-    sortednum.sort();
-    const sortedden = [...(den || [])];
-    sortedden.sort();
-    const key = sortednum.join(":") + "/" + sortedden.join(":");
-    let out = this.unitsMap.get(key) || null;
-    if (out == null) {
-      out = new Units(num, den);
-      this.unitsMap.set(key, out);
-    }
-    return out;
+  onChange(varname: string, listener: ChangeListener): () => void {
+    // Listeners are kept by the DAG owning the variable
+    const [scope, name] = this.scopeOf(varname);
+    const v = scope.getVar(name);
+    if (v != null && v.dag !== this) return v.dag.onChange(v.name, listener);
+    if (scope !== this) return scope.onChange(name, listener);
+    v?.latestValue;
+    const listeners = this.listeners.get(varname) || [];
+    this.listeners.set(varname, listeners);
+    listeners.push(listener);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index >= 0) listeners.splice(index, 1);
+    };
   }
 
-  getFunc(name: string): FuncType | null {
-    return this.funcs.get(name) || null;
+  /**
+   * Registers a listener that is called when the value of any variable
+   * (including those in mounted DAGs) changes.  Returns a function that
+   * removes the listener.
+   */
+  onAnyChange(listener: ChangeListener): () => void {
+    this.globalListeners.push(listener);
+    return () => {
+      const index = this.globalListeners.indexOf(listener);
+      if (index >= 0) this.globalListeners.splice(index, 1);
+    };
   }
 
-  regFunc(name: string, f: FuncType): this {
-    this.funcs.set(name, f);
-    return this;
+  /**
+   * Returns the names of variables directly referred to by the given expression.
+   */
+  varsReferencedBy(expr: Expr | null, out = new Set<string>()): Set<string> {
+    if (expr == null || expr.type == ExprType.VALUE) return out;
+    if (expr.type == ExprType.VARREF) {
+      out.add((expr as VarRef).name);
+    } else if (expr.type == ExprType.FUNCCALL) {
+      for (const e of (expr as FuncCall).args) {
+        this.varsReferencedBy(e, out);
+      }
+    } else if (expr.type == ExprType.LAMBDA) {
+      // Parameters shadow variables of the same name
+      const lambda = expr as Lambda;
+      for (const name of this.varsReferencedBy(lambda.body)) {
+        if (!lambda.params.includes(name)) out.add(name);
+      }
+    }
+    return out;
   }
 
   /**
-   * Creates a new function in this dag.
+   * Returns the names of the variables the given variable refers to, or with
+   * transitive set, of all the variables its value depends on in topological
+   * order.  Names are qualified from the root DAG and include names that are
+   * referred to but not defined (see undefinedVars).
    */
-  newFunc(name: string, args: Expr[]): FuncCall {
-    return new FuncCall(this, name, args);
+  dependencies(varname: string, options: { transitive?: boolean } = {}): string[] {
+    const v = this.getVar(varname);
+    if (v == null) throw new InvalidRefError("Invalid reference: " + varname);
+    if (!options.transitive) return v.dag.resolvedRefs(v.value);
+    const root = this.root;
+    const visited = new Set<string>([v.qualifiedName]);
+    const out: string[] = [];
+    const visit = (v: Var) => {
+      for (const name of v.dag.resolvedRefs(v.value)) {
+        if (visited.has(name)) continue;
+        visited.add(name);
+        const dep = root.getVar(name);
+        if (dep != null) visit(dep);
+        out.push(name);
+      }
+    };
+    visit(v);
+    return out;
   }
 
   /**
-   * Creates a boolean literal in this dag.
+   * Returns the names of the variables that refer to the given variable, or
+   * with transitive set, of all the variables whose values depend on it in
+   * topological order.  Names are qualified from the root DAG.
    */
-  newBool(value: boolean): Value {
-    return value ? this.TRUE : this.FALSE;
+  dependents(varname: string, options: { transitive?: boolean } = {}): string[] {
+    if (options.transitive) return this.affectedVars(varname).slice(1);
+    return [...(this.root.dependentsIndex.get(this.qualifiedNameOf(varname)) || [])];
   }
 
   /**
-   * Creates a numeric literal in this dag.
+   * Returns the names of all variables in this DAG and those mounted in it
+   * such that each variable comes after all the variables it depends on.
    */
-  newNum(value: number) {
-    // TODO - worth creating signletons?
-    return new Value(this, value);
+  topoOrder(): string[] {
+    const root = this.root;
+    const visited = new Set<Var>();
+    const out: string[] = [];
+    const visit = (v: Var) => {
+      if (visited.has(v)) return;
+      visited.add(v);
+      for (const name of v.dag.resolvedRefs(v.value)) {
+        const dep = root.getVar(name);
+        if (dep != null && dep.dag.isWithin(this)) visit(dep);
+      }
+      out.push(v.qualifiedName);
+    };
+    this.allVars().forEach(visit);
+    return out;
   }
 
   /**
-   * Value around a string literal.
+   * Returns the names of variables (here and in mounted DAGs) that no other
+   * variable refers to, ie the outputs of the model or leftovers.
    */
-  newStr(value: string) {
-    return new Value(this, value);
+  unusedVars(): string[] {
+    const index = this.root.dependentsIndex;
+    return this.allVars()
+      .map((v) => v.qualifiedName)
+      .filter((name) => (index.get(name)?.size || 0) == 0);
   }
 
   /**
-   * Creates a new variable in this DAG.
+   * Returns the names referred to by variables here (and in mounted DAGs)
+   * that are not defined.  Such references evaluate to #REF errors.  Use
+   * dependents to find the variables referring to them.
    */
-  newVar(varname: string, expr: Expr | null) {
-    return this.setValue(varname, expr);
+  undefinedVars(): string[] {
+    const root = this.root;
+    const out = new Set<string>();
+    for (const v of this.allVars()) {
+      for (const name of v.dag.resolvedRefs(v.value)) {
+        if (root.getVar(name) == null) out.add(name);
+      }
+    }
+    return [...out];
   }
 
-  newVarRef(varname: string): VarRef {
-    return new VarRef(this, varname);
+  /**
+   * Returns the given variables and all variables that transitively depend on
+   * them in topological order, ie a variable always appears after all the
+   * variables it depends on.  Names are qualified from the root DAG (see
+   * Var.qualifiedName).
+   */
+  affectedVars(...varnames: string[]): string[] {
+    const dependents = this.root.dependentsIndex;
+    const visited = new Set<string>();
+    const out: string[] = [];
+    const visit = (name: string) => {
+      if (visited.has(name)) return;
+      visited.add(name);
+      for (const dep of dependents.get(name) || []) {
+        visit(dep);
+      }
+      out.push(name);
+    };
+    varnames.forEach((name) => visit(this.qualifiedNameOf(name)));
+    return out.reverse();
   }
 
   /**
-   * Returns the variable by the given name.
+   * Marks the subgraph affected by a change to the given variables as dirty and
+   * recomputes it in topological order, notifying listeners of any variables
+   * whose values changed.  Variables that have never been evaluated and have
+   * no listeners are only marked dirty and are evaluated lazily when read.
+   * Within a transaction listeners are only notified when it commits.
    */
-  getVar(varname: string, ensure = false): Var | null {
-    let out = this.vars.get(varname) || null;
-    if (out == null && ensure) {
-      // create an empty var
-      out = new Var(this, varname, this.NULL);
-      this.vars.set(varname, out);
+  protected propagateChanges(...varnames: string[]): void {
+    const root = this.root;
+    const tx = root.currentTransaction;
+    const affected: [Var, Value | null][] = [];
+    for (const name of this.affectedVars(...varnames)) {
+      const v = root.getVar(name);
+      if (v != null) {
+        if (tx != null && !tx.lastValues.has(v)) tx.lastValues.set(v, v.lastValue);
+        affected.push([v, v.lastValue]);
+        v.markDirty();
+      }
+    }
+    if (tx != null) {
+      varnames.forEach((name) => tx.changed.add(this.qualifiedNameOf(name)));
+    } else {
+      root.notifyChanges(affected);
     }
-    return out;
   }
 
-  setValue(varname: string, newValue: Expr | null): Var {
-    newValue = newValue || this.NULL;
-    const v = this.getVar(varname, true) as Var;
-    if (this.exprContainsVar(newValue, varname)) {
-      throw new CircularReferenceError("Circular reference for variable: " + varname);
-    }
-    if (v.value != this.NULL) {
-      // remove references first
+  /**
+   * Evaluates the given (dirty) variables in order, notifying listeners of
+   * those whose values changed from the given old values.
+   */
+  protected notifyChanges(affected: [Var, Value | null][]): void {
+    for (const [v, oldValue] of affected) {
+      const listeners = [...(v.dag.listeners.get(v.name) || []), ...v.dag.anyChangeListeners()];
+      if (oldValue == null && listeners.length == 0) {
+        continue;
+      }
+      const newValue = v.latestValue;
+      if (oldValue == null || !oldValue.equals(newValue)) {
+        for (const listener of listeners) {
+          listener(v, oldValue || this.NULL, newValue);
+        }
+      }
     }
-    v.value = newValue;
-    // TODO - propogate changes to dependants
-    return v;
   }
 
-  exprContainsVar(expr: Expr | null, varname: string): boolean {
-    // TODO - we can do some speedups here
-    // 1. Dont bother checking variable names already checked
-    //    - useful if a variable name is referred to multiple times in an expression.
-    if (expr == null || expr.type == ExprType.VALUE) return false;
-    if (expr.type == ExprType.VARREF) {
-      const vname = (expr as VarRef).name;
-      if (vname == varname) return true;
+  /**
+   * Listeners for changes to any variable in this DAG, ie those registered
+   * here and in the DAGs this one is mounted in.
+   */
+  protected anyChangeListeners(): ChangeListener[] {
+    return [...this.globalListeners, ...(this.parent?.anyChangeListeners() || [])];
+  }
 
-      // if name does not match ensure that the var's expression
-      // does not refer to varname
-      const v = this.getVar(vname);
-      return v != null && this.exprContainsVar(v.value, varname);
-    }
-    if (expr.type == ExprType.FUNCCALL) {
-      // see it is not in any of the args
-      for (const e of (expr as FuncCall).args) {
-        if (this.exprContainsVar(e, varname)) {
+  /**
+   * Returns true if the expression refers to the given variable directly or
+   * via other variables (in any DAG they are mounted with).
+   */
+  exprContainsVar(expr: Expr | null, varname: string): boolean {
+    const target = this.getVar(varname);
+    // Each variable only needs checking once even if referred to many times
+    const visited = new Set<Var>();
+    const visit = (dag: DAG, expr: Expr | null): boolean => {
+      for (const name of dag.varsReferencedBy(expr)) {
+        const v = dag.getVar(name);
+        if (v == null) {
+          if (target == null && dag === this && name == varname) return true;
+        } else if (v === target) {
           return true;
+        } else if (!visited.has(v)) {
+          visited.add(v);
+          if (visit(v.dag, v.value)) return true;
         }
       }
-    }
-    return false;
+      return false;
+    };
+    return visit(this, expr);
   }
 }
 
 export abstract class Expr {
-  protected lastEvaluated = -1;
   private static counter = 0;
-  private _latestValue: Value;
+  private _latestValue: Value | null = null;
   readonly uuid = Expr.counter++;
 
-  constructor(public dag: DAG) {
-    this._latestValue = dag.ZERO;
-  }
+  /**
+   * Where this expression was found if it was parsed from source.
+   */
+  span: SourceSpan | null = null;
+
+  /**
+   * Incremented each time the value produced by this expression changes.
+   */
+  version = 0;
+
+  /**
+   * Versions of the inputs this expression was last evaluated with.
+   */
+  protected inputVersions: number[] = [];
+
+  constructor(public dag: DAG) {}
 
   get type(): unknown {
     return this.constructor.name;
   }
 
+  /**
+   * Returns the value of this expression, re-evaluating it only if the
+   * version of any of its inputs has changed since the last evaluation.
+   * If a re-evaluation produces a value equal to the previous one, the
+   * version of this expression is left untouched so that nodes depending on
+   * it do not have to be re-evaluated either (early cutoff).
+   */
   get latestValue(): Value {
-    if (this.lastEvaluated < this.dag.lastModified) {
-      // an update is needed
-      this._latestValue = this.eval();
-      this.lastEvaluated = this.dag.lastModified;
+    const tracer = this.dag.root.tracer;
+    if (tracer == null) {
+      this.update();
+      return this._latestValue as Value;
+    }
+    tracer.enter(this);
+    try {
+      const evaluated = this.update();
+      tracer.exit(this, this._latestValue, !evaluated, null);
+    } catch (err) {
+      tracer.exit(this, null, false, err as Error);
+      throw err;
+    }
+    return this._latestValue as Value;
+  }
+
+  /**
+   * Brings the value of this expression up to date (see latestValue) and
+   * returns whether it had to be re-evaluated.
+   */
+  protected update(): boolean {
+    const versions = this.currentInputVersions();
+    if (this._latestValue != null && sameVersions(versions, this.inputVersions)) {
+      return false;
+    }
+    const value = this.eval();
+    this.inputVersions = this.evaluatedInputVersions(versions);
+    if (this._latestValue == null || !value.equals(this._latestValue)) {
+      this._latestValue = value;
+      this.version++;
     }
-    return this._latestValue;
+    return true;
+  }
+
+  /**
+   * Brings the inputs of this expression up to date and returns their versions.
+   */
+  protected currentInputVersions(): number[] {
+    return [];
+  }
+
+  /**
+   * Versions of the inputs the last evaluation depended on given the
+   * versions of the inputs before it.  Only differs for expressions whose
+   * inputs depend on how they were evaluated (eg calls to lazy functions).
+   */
+  protected evaluatedInputVersions(versions: number[]): number[] {
+    return versions;
   }
 
   debugValue(): any {
     return {};
   }
 
+  /**
+   * Returns the JSON form of this expression (see ExprJSON).
+   */
+  abstract toJSON(): ExprJSON;
+
+  /**
+   * A key identifying the structure of this expression.  Arguments of
+   * function calls are identified by their uuids so keys are only equal for
+   * calls whose arguments are the same (eg interned) instances.
+   */
+  abstract get structuralKey(): string;
+
   abstract eval(): Value;
 }
 
 export class Value extends Expr {
-  constructor(public dag: DAG, public readonly value: any) {
+  constructor(public dag: DAG, public readonly value: any, public readonly units: Units | null = null) {
     super(dag);
   }
 
@@ -209,8 +2101,68 @@ export class Value extends Expr {
     return this;
   }
 
+  /**
+   * Type of the underlying value.
+   */
+  get valueType(): ValueType {
+    const value = this.value;
+    if (value === null || value === undefined) return ValueType.NULL;
+    if (typeof value === "boolean") return ValueType.BOOL;
+    if (typeof value === "string") return ValueType.STRING;
+    if (typeof value === "number") return Number.isInteger(value) ? ValueType.INT : ValueType.FLOAT;
+    if (Array.isArray(value)) return ValueType.ARRAY;
+    if (typeof value === "function") return ValueType.FUNCTION;
+    if (this.dag.numeric.isNumber(value)) return this.dag.numeric.isInteger(value) ? ValueType.INT : ValueType.FLOAT;
+    if (isRecord(value)) return ValueType.RECORD;
+    if (value instanceof ErrorInfo) return ValueType.ERROR;
+    if (value instanceof Pending) return ValueType.PENDING;
+    return ValueType.ANY;
+  }
+
+  get isError(): boolean {
+    return this.value instanceof ErrorInfo;
+  }
+
+  get isPending(): boolean {
+    return this.value instanceof Pending;
+  }
+
+  /**
+   * The elements of an array value, each carrying the array's units.
+   */
+  get elements(): Value[] {
+    if (!Array.isArray(this.value)) {
+      throw new ArrayError("Not an array: " + JSON.stringify(this.value));
+    }
+    return this.value.map((v) => new Value(this.dag, v, this.units));
+  }
+
   debugValue(): any {
-    return this.value;
+    return this.units == null ? this.value : { value: this.value, units: this.units.toString() };
+  }
+
+  toJSON(): ExprJSON {
+    const out: ExprJSON = isExactNumber(this.value, this.dag.numeric)
+      ? { num: numToJSON(this.value) }
+      : { value: this.value };
+    if (this.units != null) out.units = this.units.toString();
+    return out;
+  }
+
+  toString(): string {
+    const out = valueKey(this.value);
+    return this.units == null ? out : `${out} [${this.units}]`;
+  }
+
+  get structuralKey(): string {
+    return "V:" + typeof this.value + ":" + valueKey(this.value) + ":" + (this.units?.key ?? "");
+  }
+
+  /**
+   * Returns true if this value holds the same underlying value (and units) as another.
+   */
+  equals(another: Value): boolean {
+    return this === another || (sameValue(this.value, another.value) && this.units?.key === another.units?.key);
   }
 }
 
@@ -224,22 +2176,179 @@ export class FuncCall extends Expr {
     return { func: this.funcname, args: this.args.map((a) => a.debugValue()) };
   }
 
+  toJSON(): ExprJSON {
+    return { func: this.funcname, args: this.args.map((a) => a.toJSON()) };
+  }
+
+  get structuralKey(): string {
+    return "F:" + this.funcname + "(" + this.args.map((a) => a.uuid).join(",") + ")";
+  }
+
+  // Indexes of the arguments used in the last evaluation of a lazy function
+  protected usedArgs: number[] | null = null;
+
+  protected currentInputVersions(): number[] {
+    const info = this.dag.getFuncInfo(this.funcname);
+    if (!info?.lazy) {
+      const versions = this.args.map((a) => {
+        a.latestValue;
+        return a.version;
+      });
+      // Calls to defined functions are out of date once any are redefined
+      if (info?.body) versions.push(this.dag.root.funcsVersion);
+      // and calls to asynchronous functions once any settle
+      if (info?.async) versions.push(this.dag.root.asyncVersion);
+      return versions;
+    }
+    // Only the arguments used last time (as index, version pairs) and only
+    // until one has changed as the rest may no longer be needed (or valid)
+    const out: number[] = [];
+    for (const i of this.usedArgs || []) {
+      const arg = this.args[i];
+      arg.latestValue;
+      out.push(i, arg.version);
+      if (this.inputVersions[out.length - 1] != arg.version) break;
+    }
+    return out;
+  }
+
+  protected evaluatedInputVersions(versions: number[]): number[] {
+    return this.usedArgs == null ? versions : this.usedArgs.flatMap((i) => [i, this.args[i].version]);
+  }
+
   eval(): Value {
+    const info = this.dag.getFuncInfo(this.funcname);
+    if (info?.lazy) {
+      this.dag.checkArity(this.funcname, this.args.length);
+      const lazy = info.lazy;
+      const used: number[] = [];
+      try {
+        return evalBounds(info, (pick) =>
+          lazy(this.dag, this.args, (i) => {
+            const arg = this.args[i];
+            if (arg == null) return this.dag.NULL;
+            if (!used.includes(i)) used.push(i);
+            let value: Value;
+            try {
+              value = arg.latestValue;
+            } catch (err) {
+              if (!info.handlesErrors) throw err;
+              value = errorValueOf(this.dag, err);
+            }
+            if (value.isPending || (value.isError && !info.handlesErrors)) throw new ErrorSignal(value);
+            return pick(value, i);
+          }),
+        );
+      } catch (err) {
+        if (err instanceof ErrorSignal) return err.value;
+        throw err;
+      } finally {
+        this.usedArgs = used;
+      }
+    }
+    if (info == null) {
+      return this.dag.newError(ErrorCode.NAME, "Unknown function: " + this.funcname);
+    }
     const values = this.args.map((a) => a.latestValue);
-    const func = this.dag.getFunc(this.funcname);
-    if (func == null) {
-      throw new InvalidRefError("Invalid reference: " + this.funcname);
+    this.dag.checkArity(this.funcname, values.length);
+    this.usedArgs = null;
+    const error = values.find((v) => v.isError);
+    if (error != null && !info.handlesErrors) return error;
+    const pending = values.find((v) => v.isPending);
+    if (pending != null) return pending;
+    if (values.some((v) => isUncertain(v.value))) {
+      return evalBounds(info, (pick) => info.func(this.dag, values.map(pick)));
     }
-    return func(this.dag, values);
+    return info.func(this.dag, values);
   }
 }
 
 export class Var {
+  private static counter = 0;
+  readonly uuid = Var.counter++;
   desc = "";
+
+  /**
+   * Incremented each time the value of this variable changes.
+   */
+  version = 0;
+  protected dirty = true;
+  protected cachedValue: Value | null = null;
   constructor(public dag: DAG, public name: string, public value: Expr) {}
 
+  /**
+   * Marks this variable as needing a re-evaluation on its next read.
+   */
+  markDirty(): void {
+    this.dirty = true;
+  }
+
+  get isDirty(): boolean {
+    return this.dirty;
+  }
+
+  /**
+   * Discards values computed since the given value was last computed (eg in
+   * a rolled back transaction) and marks this variable for re-evaluation.
+   */
+  revert(lastValue: Value | null): void {
+    this.cachedValue = lastValue;
+    this.dirty = true;
+    // Expressions computed from the discarded values must be recomputed
+    this.version++;
+  }
+
+  /**
+   * Name of this variable as referred to from the root DAG, eg tax.rate.
+   */
+  get qualifiedName(): string {
+    return this.dag.qualify(this.name);
+  }
+
+  /**
+   * The value computed in the last evaluation of this variable, or null if
+   * it has never been evaluated.
+   */
+  get lastValue(): Value | null {
+    return this.cachedValue;
+  }
+
+  /**
+   * The value of this variable, re-evaluated if it is dirty.  Errors thrown
+   * evaluating it (eg indexes out of range) become error values.
+   */
   get latestValue(): Value {
-    return this.value.latestValue;
+    if (this.dirty || this.cachedValue == null) {
+      let value: Value;
+      try {
+        value = this.value.latestValue;
+      } catch (err) {
+        value = errorValueOf(this.dag, err);
+      }
+      if (value.isError && value.value.origin == null) {
+        value = new Value(this.dag, new ErrorInfo(value.value.code, value.value.message, this.qualifiedName));
+      }
+      if (this.cachedValue == null || !value.equals(this.cachedValue)) {
+        this.stopWaiting();
+        this.cachedValue = value;
+        this.version++;
+      }
+      if (value.isPending) value.value.waiters.add(this);
+      this.dirty = false;
+    }
+    return this.cachedValue;
+  }
+
+  /**
+   * Stops waiting for the call this variable's value is pending on (if any),
+   * cancelling it if no other variables are waiting for it.
+   */
+  protected stopWaiting(): void {
+    const pending = this.cachedValue?.value;
+    if (pending instanceof Pending) {
+      pending.waiters.delete(this);
+      if (pending.waiters.size == 0) pending.cancel();
+    }
   }
 }
 
@@ -255,8 +2364,203 @@ export class VarRef extends Expr {
     return "Var(" + this.name + ")";
   }
 
+  toJSON(): ExprJSON {
+    return { var: this.name };
+  }
+
+  get structuralKey(): string {
+    return "R:" + this.name;
+  }
+
+  protected currentInputVersions(): number[] {
+    const v = this.dag.getVar(this.name);
+    if (v == null) return [-1];
+    v.latestValue;
+    // Names may come to refer to other variables, eg ones defined in a scope
+    return [v.uuid, v.version];
+  }
+
   eval(): Value {
     const v = this.dag.getVar(this.name);
-    return v == null ? this.dag.NULL : v.latestValue;
+    return v == null ? this.dag.newError(ErrorCode.REF, "Undefined variable: " + this.name) : v.latestValue;
+  }
+}
+
+/**
+ * An anonymous function, eg x => x * 2, that evaluates to a function value
+ * which can be passed to higher order functions like map and filter.  Calling
+ * it evaluates the body with the parameters bound to the arguments.  Other
+ * variables referred to in the body are inputs of the lambda so its value
+ * changes when any of them do.
+ */
+export class Lambda extends Expr {
+  constructor(public dag: DAG, public params: string[], public body: Expr) {
+    super(dag);
+  }
+
+  debugValue(): any {
+    return { lambda: this.params, body: this.body.debugValue() };
+  }
+
+  toJSON(): ExprJSON {
+    return { lambda: this.params, body: this.body.toJSON() };
+  }
+
+  get structuralKey(): string {
+    return "L:" + this.params.join(",") + "=>" + this.body.uuid;
+  }
+
+  protected currentInputVersions(): number[] {
+    const versions = [...this.dag.varsReferencedBy(this)].flatMap((name) => {
+      const v = this.dag.getVar(name);
+      if (v == null) return [-1];
+      v.latestValue;
+      return [v.uuid, v.version];
+    });
+    // The body may call defined functions
+    versions.push(this.dag.root.funcsVersion);
+    return versions;
+  }
+
+  /**
+   * Evaluates the body with the parameters bound to the given values.
+   */
+  call(args: Value[]): Value {
+    const bindings = new Map<string, Expr>(this.params.map((p, i) => [p, args[i] || this.dag.NULL]));
+    return substitute(this.body, bindings).latestValue;
+  }
+
+  eval(): Value {
+    // A new function each time so values depending on it are re-evaluated
+    return new Value(this.dag, (...args: Value[]) => this.call(args));
+  }
+}
+
+/**
+ * Returns expr with references to the given names replaced by their bindings.
+ * Subexpressions without any such references are returned as is (so cached
+ * values are reused).
+ */
+function substitute(expr: Expr, bindings: Map<string, Expr>): Expr {
+  if (expr.type == ExprType.VARREF) {
+    return bindings.get((expr as VarRef).name) || expr;
+  } else if (expr.type == ExprType.FUNCCALL) {
+    const call = expr as FuncCall;
+    const args = call.args.map((a) => substitute(a, bindings));
+    return args.every((a, i) => a === call.args[i]) ? expr : new FuncCall(call.dag, call.funcname, args);
+  } else if (expr.type == ExprType.LAMBDA) {
+    const lambda = expr as Lambda;
+    const inner = new Map([...bindings].filter(([name]) => !lambda.params.includes(name)));
+    const body = substitute(lambda.body, inner);
+    return body === lambda.body ? expr : new Lambda(lambda.dag, lambda.params, body);
+  }
+  return expr;
+}
+
+/**
+ * Returns true for plain objects, ie the underlying values of records.
+ */
+export function isRecord(value: any): boolean {
+  if (value == null || typeof value !== "object" || Array.isArray(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Whether a value is a number of a numeric backend other than a JS number,
+ * or an array of numbers holding some, which are not exact as JSON numbers.
+ */
+function isExactNumber(value: any, numeric: NumericBackend): boolean {
+  const leaves = (v: any): any[] => (Array.isArray(v) ? v.flatMap(leaves) : [v]);
+  const xs = leaves(value);
+  return xs.every((x) => numeric.isNumber(x)) && xs.some((x) => typeof x !== "number");
+}
+
+function numToJSON(value: any): NumJSON {
+  return Array.isArray(value) ? value.map(numToJSON) : String(value);
+}
+
+/**
+ * Underlying values as JSON, except for bigints and instances of classes (eg
+ * error values or numbers of numeric backends) which are shown as strings.
+ */
+function valueKey(value: any): string {
+  if (
+    typeof value === "bigint" ||
+    (typeof value === "object" && value !== null && !Array.isArray(value) && !isRecord(value))
+  ) {
+    return String(value);
+  }
+  return JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Compares underlying values, element wise for arrays and field wise for
+ * records.  Instances of classes (eg decimals) are compared with their
+ * equals method.
+ */
+function sameValue(a: any, b: any): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length == b.length && a.every((x, i) => sameValue(x, b[i]));
+  }
+  if (isRecord(a) && isRecord(b) && a !== b) {
+    const keys = Object.keys(a);
+    return (
+      keys.length == Object.keys(b).length &&
+      keys.every((k) => Object.prototype.hasOwnProperty.call(b, k) && sameValue(a[k], b[k]))
+    );
+  }
+  if (a !== null && typeof a === "object" && typeof a.equals === "function") return a.equals(b);
+  return Object.is(a, b);
+}
+
+/**
+ * Thrown by arguments of lazy functions evaluating to errors to return the
+ * error from the call.
+ */
+class ErrorSignal {
+  constructor(public readonly value: Value) {}
+}
+
+/**
+ * Returns the error value for an error thrown evaluating an expression.
+ * Errors not caused by the values evaluated are rethrown.
+ */
+function errorValueOf(dag: DAG, err: unknown): Value {
+  if (err instanceof RecursionError || err instanceof CircularReferenceError) {
+    return dag.newError(ErrorCode.CYCLE, err.message);
+  }
+  if (err instanceof InvalidRefError) {
+    return dag.newError(ErrorCode.NAME, err.message);
+  }
+  if (
+    err instanceof ArrayError ||
+    err instanceof RecordError ||
+    err instanceof UnitsError ||
+    err instanceof ArityError ||
+    err instanceof ValueTypeError
+  ) {
+    return dag.newError(ErrorCode.TYPE, err.message);
+  }
+  throw err;
+}
+
+/**
+ * Error value for the failure of an asynchronous function, #N/A unless it is
+ * one of the errors usually turned into error values.
+ */
+function asyncErrorValueOf(dag: DAG, err: unknown): Value {
+  try {
+    return errorValueOf(dag, err);
+  } catch (_) {
+    return dag.newError(ErrorCode.NA, err instanceof Error ? err.message : String(err));
+  }
+}
+
+function sameVersions(a: number[], b: number[]): boolean {
+  if (a.length != b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] != b[i]) return false;
   }
+  return true;
 }
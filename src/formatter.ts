@@ -0,0 +1,294 @@
+import { Expr, ExprType, FuncCall, Lambda, Value, VarRef, isRecord } from "./core";
+import { Operator, Parser } from "./parser";
+
+export interface FormatOptions {
+  /**
+   * Whether to put spaces around infix operators and after commas.
+   */
+  spaces?: boolean;
+
+  /**
+   * Expressions longer than this are wrapped over multiple lines.
+   */
+  maxWidth?: number;
+
+  /**
+   * Indentation used for each level of wrapped lines.
+   */
+  indent?: string;
+}
+
+const OPCHARS = "-=/+!*%<>&|^?~";
+
+/**
+ * Turns expressions back into formula text.  Operators are printed in infix
+ * (or prefix) form using the same operator table the Parser uses so that only
+ * the parentheses needed to preserve the structure of the expression are
+ * added.  Arrays, records, indexing and field access are printed as
+ * [a, b, ...], {name: value, ...}, array[index] and record.name and all other
+ * functions as name(args...).
+ */
+export class Formatter {
+  readonly spaces: boolean;
+  readonly maxWidth: number;
+  readonly indent: string;
+
+  constructor(public readonly opinfos: Map<string, Operator>, options: FormatOptions = {}) {
+    this.spaces = options.spaces ?? true;
+    this.maxWidth = options.maxWidth ?? Infinity;
+    this.indent = options.indent ?? "  ";
+  }
+
+  format(expr: Expr): string {
+    return this.formatExpr(expr, -Infinity, "");
+  }
+
+  /**
+   * Formats an expression that is followed by an operator with the given
+   * binding power (or -Infinity if nothing follows it).
+   */
+  protected formatExpr(expr: Expr, followBP: number, indent: string): string {
+    if (expr.type == ExprType.VALUE) {
+      return this.formatValue(expr as Value);
+    } else if (expr.type == ExprType.VARREF) {
+      return (expr as VarRef).name;
+    } else if (expr.type == ExprType.FUNCCALL) {
+      const call = expr as FuncCall;
+      const op = this.opinfos.get(call.funcname);
+      if (call.funcname == "array") {
+        return this.formatArgs("[", call.args, "]", indent);
+      } else if (call.funcname == "index" && call.args.length == 2) {
+        return this.formatTerm(call.args[0], indent) + "[" + this.formatExpr(call.args[1], -Infinity, indent) + "]";
+      } else if (call.funcname == "record" && isRecordCall(call)) {
+        return this.formatRecord(call, indent);
+      } else if (call.funcname == "field" && call.args.length == 2 && isFieldName(call.args[1])) {
+        return this.formatTerm(call.args[0], indent) + "." + (call.args[1] as Value).value;
+      } else if (op && call.args.length == 1 && op.prefixBP >= 0) {
+        return this.formatPrefix(op, call.args[0], followBP, indent);
+      } else if (op && call.args.length >= 2 && op.bp >= 0) {
+        return this.formatInfix(op, this.foldArgs(op, call.args), followBP, indent);
+      }
+      return this.formatCall(call, indent);
+    } else if (expr.type == ExprType.LAMBDA) {
+      const lambda = expr as Lambda;
+      const params = lambda.params.length == 1 ? lambda.params[0] : "(" + lambda.params.join(", ") + ")";
+      return params + " => " + this.formatExpr(lambda.body, -Infinity, indent);
+    }
+    throw new Error("Cannot format expression: " + expr.type);
+  }
+
+  protected formatValue(value: Value): string {
+    const v = value.value;
+    let out: string;
+    const comma = this.spaces ? ", " : ",";
+    if (Array.isArray(v)) {
+      // Units are written on each element
+      return "[" + value.elements.map((e) => this.formatValue(e)).join(comma) + "]";
+    } else if (isRecord(v)) {
+      const colon = this.spaces ? ": " : ":";
+      const fields = Object.keys(v).map((k) => formatName(k) + colon + this.formatValue(new Value(value.dag, v[k])));
+      return "{" + fields.join(comma) + "}";
+    } else if (typeof v === "string") {
+      out = quoteString(v);
+    } else if (v === null || v === undefined) {
+      out = "null";
+    } else {
+      out = String(v);
+    }
+    if (value.units != null) {
+      out += " [" + value.units.toString() + "]";
+    }
+    return out;
+  }
+
+  protected formatCall(call: FuncCall, indent: string): string {
+    return this.formatArgs(call.funcname + "(", call.args, ")", indent);
+  }
+
+  protected formatArgs(open: string, args: Expr[], close: string, indent: string): string {
+    return this.formatList(open, args, close, indent, (arg, inner) => this.formatExpr(arg, -Infinity, inner));
+  }
+
+  /**
+   * Formats comma separated expressions between open and close, wrapping
+   * them one per line if too long.
+   */
+  protected formatList<T>(
+    open: string,
+    items: T[],
+    close: string,
+    indent: string,
+    formatItem: (item: T, indent: string) => string,
+  ): string {
+    const texts = items.map((a) => formatItem(a, indent));
+    const flat = open + texts.join(this.spaces ? ", " : ",") + close;
+    if (indent.length + flat.length <= this.maxWidth || texts.length == 0) {
+      return flat;
+    }
+    const inner = indent + this.indent;
+    const wrapped = items.map((a) => inner + formatItem(a, inner));
+    return open + "\n" + wrapped.join(",\n") + "\n" + indent + close;
+  }
+
+  protected formatRecord(call: FuncCall, indent: string): string {
+    const fields: [string, Expr][] = [];
+    for (let i = 0; i < call.args.length; i += 2) {
+      fields.push([(call.args[i] as Value).value, call.args[i + 1]]);
+    }
+    const colon = this.spaces ? ": " : ":";
+    return this.formatList(
+      "{",
+      fields,
+      "}",
+      indent,
+      ([name, value], indent) => formatName(name) + colon + this.formatExpr(value, -Infinity, indent),
+    );
+  }
+
+  /**
+   * Formats the array (or record) of an index (or field access), adding
+   * parentheses unless it is a simple term (a variable, call, array, record,
+   * index or field access).
+   */
+  protected formatTerm(expr: Expr, indent: string): string {
+    const out = this.formatExpr(expr, -Infinity, indent);
+    const isOp =
+      expr.type == ExprType.FUNCCALL &&
+      this.opinfos.has((expr as FuncCall).funcname) &&
+      !["array", "index", "record", "field"].includes((expr as FuncCall).funcname);
+    // Numbers are parenthesized too as "3 [1]" would be read as units
+    const isScalar =
+      expr.type == ExprType.VALUE && !Array.isArray((expr as Value).value) && !isRecord((expr as Value).value);
+    return isOp || isScalar || expr.type == ExprType.LAMBDA ? "(" + out + ")" : out;
+  }
+
+  protected formatPrefix(op: Operator, operand: Expr, followBP: number, indent: string): string {
+    // A following operator binding tighter than this prefix operator would
+    // be absorbed into its operand
+    const parens = followBP > op.prefixBP;
+    const operandText = this.formatOperand(operand, op.prefixBP + 1, parens ? -Infinity : followBP, indent);
+    return this.wrap(joinTokens(op.op, operandText), parens);
+  }
+
+  protected formatInfix(op: Operator, args: [Expr, Expr], followBP: number, indent: string): string {
+    // Parenthesize if this expression would be broken up by the operator that follows it
+    const parens = followBP > op.bp || (followBP == op.bp && op.assoc != Operator.LEFT);
+    const [left, right] = args;
+    const leftMinBP = op.assoc == Operator.LEFT ? op.bp : op.bp + 1;
+    const rightMinBP = op.assoc == Operator.RIGHT ? op.bp : op.bp + 1;
+    const leftText = this.formatOperand(left, leftMinBP, op.bp, indent);
+    const rightText = this.formatOperand(right, rightMinBP, parens ? -Infinity : followBP, indent);
+    const sep = this.spaces ? " " : "";
+    let out = joinTokens(joinTokens(leftText + sep, op.op) + sep, rightText);
+    if (indent.length + out.length > this.maxWidth) {
+      const inner = indent + this.indent;
+      out = leftText + " " + op.op + "\n" + inner + this.formatOperand(right, rightMinBP, followBP, inner);
+    }
+    return this.wrap(out, parens);
+  }
+
+  /**
+   * Formats the operand of an operator.  Operands that are operators binding
+   * less tightly than minBP are parenthesized.
+   */
+  protected formatOperand(operand: Expr, minBP: number, followBP: number, indent: string): string {
+    if (operand.type == ExprType.FUNCCALL) {
+      const call = operand as FuncCall;
+      const op = this.opinfos.get(call.funcname);
+      if (op && call.args.length >= 2 && op.bp >= 0 && op.bp < minBP) {
+        return "(" + this.formatExpr(operand, -Infinity, indent) + ")";
+      }
+    } else if (operand.type == ExprType.VALUE && typeof (operand as Value).value === "number") {
+      // Negative literals are parenthesized so their sign cannot be mistaken for an operator
+      if ((operand as Value).value < 0) {
+        return "(" + this.formatValue(operand as Value) + ")";
+      }
+    }
+    return this.formatExpr(operand, followBP, indent);
+  }
+
+  /**
+   * Operators with more than two arguments (eg from variadic Plus) are
+   * treated as a chain of binary operators in the direction of their
+   * associativity.
+   */
+  protected foldArgs(op: Operator, args: Expr[]): [Expr, Expr] {
+    if (args.length == 2) return [args[0], args[1]];
+    const dag = args[0].dag;
+    if (op.assoc == Operator.RIGHT) {
+      return [args[0], new FuncCall(dag, op.op, args.slice(1))];
+    }
+    return [new FuncCall(dag, op.op, args.slice(0, args.length - 1)), args[args.length - 1]];
+  }
+
+  protected wrap(text: string, parens: boolean): string {
+    return parens ? "(" + text + ")" : text;
+  }
+}
+
+/**
+ * Formats an expression using the operators registered in a parser.
+ */
+export function format(expr: Expr, parser: Parser, options: FormatOptions = {}): string {
+  return new Formatter(parser.opinfos, options).format(expr);
+}
+
+/**
+ * Quotes a string literal so it parses back to the same string.  As string
+ * literals are not unescaped by the parser, strings containing quotes,
+ * backslashes or newlines are written as raw strings - r#"..."#.
+ */
+export function quoteString(value: string): string {
+  if (!/["\\\n]/.test(value)) return '"' + value + '"';
+  if (!/['\\\n]/.test(value)) return "'" + value + "'";
+  let hashes = "#";
+  while (value.indexOf('"' + hashes) >= 0) hashes += "#";
+  return "r" + hashes + '"' + value + '"' + hashes;
+}
+
+/**
+ * Returns true for calls to "record" with a string name for each value.
+ */
+function isRecordCall(call: FuncCall): boolean {
+  return call.args.length % 2 == 0 && call.args.every((a, i) => i % 2 == 1 || isString(a));
+}
+
+function isString(expr: Expr): boolean {
+  return expr.type == ExprType.VALUE && typeof (expr as Value).value === "string";
+}
+
+function isFieldName(expr: Expr): boolean {
+  return isString(expr) && isIdentifier((expr as Value).value);
+}
+
+/**
+ * Returns true for names that can be written as identifiers.
+ */
+function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && name != "true" && name != "false";
+}
+
+/**
+ * Formats the name of a record field - quoted unless it is an identifier.
+ */
+function formatName(name: string): string {
+  return isIdentifier(name) ? name : quoteString(name);
+}
+
+/**
+ * Concatenates two pieces of formula text, inserting a space where they would
+ * otherwise lex differently (eg "*" followed by "-" or "-" followed by a digit).
+ */
+function joinTokens(left: string, right: string): string {
+  const last = left[left.length - 1];
+  const first = right[0];
+  if (
+    last &&
+    first &&
+    OPCHARS.indexOf(last) >= 0 &&
+    (OPCHARS.indexOf(first) >= 0 || (last == "-" && /\d/.test(first)))
+  ) {
+    return left + " " + right;
+  }
+  return left + right;
+}
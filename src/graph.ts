@@ -0,0 +1,152 @@
+import { DAG, Var } from "./core";
+
+export interface GraphOptions {
+  /**
+   * Whether to label variables with their current values.
+   */
+  values?: boolean;
+
+  /**
+   * Only include these variables and the variables they depend on.  All
+   * variables are included by default.
+   */
+  vars?: string[];
+}
+
+/**
+ * Variables (and undefined names) of a graph grouped by the scope they are
+ * defined in.
+ */
+interface Cluster {
+  name: string;
+  nodes: string[];
+  clusters: Map<string, Cluster>;
+}
+
+/**
+ * A graph of variables to export, with edges from each variable to the
+ * variables that refer to it.
+ */
+class Graph {
+  readonly nodes: string[];
+  readonly edges: [string, string][] = [];
+  readonly root: Cluster = { name: "", nodes: [], clusters: new Map() };
+
+  constructor(public readonly dag: DAG, public readonly options: GraphOptions) {
+    const names = options.vars
+      ? options.vars.flatMap((name) => [
+          ...dag.dependencies(name, { transitive: true }),
+          dag.getVar(name)!.qualifiedName,
+        ])
+      : [...dag.topoOrder(), ...dag.undefinedVars()];
+    this.nodes = [...new Set(names)];
+    const included = new Set(this.nodes);
+    for (const name of this.nodes) {
+      this.clusterOf(name).nodes.push(name);
+      if (this.varOf(name) != null) {
+        // Variables in enclosing DAGs are left out when exporting a scope
+        for (const dep of dag.root.dependencies(name)) {
+          if (included.has(dep)) this.edges.push([dep, name]);
+        }
+      }
+    }
+  }
+
+  varOf(name: string): Var | null {
+    return this.dag.root.getVar(name);
+  }
+
+  /**
+   * The cluster for the scope of a variable.  Undefined names are not in
+   * any scope.
+   */
+  protected clusterOf(name: string): Cluster {
+    const path: string[] = [];
+    for (let dag = this.varOf(name)?.dag; dag?.parent != null && dag !== this.dag; dag = dag.parent) {
+      path.unshift(dag.prefix);
+    }
+    return path.reduce((cluster, prefix) => {
+      let out = cluster.clusters.get(prefix);
+      if (!out) {
+        out = { name: prefix, nodes: [], clusters: new Map() };
+        cluster.clusters.set(prefix, out);
+      }
+      return out;
+    }, this.root);
+  }
+
+  label(name: string): string {
+    const v = this.varOf(name);
+    if (v == null) return name + " (undefined)";
+    if (!this.options.values) return name;
+    try {
+      return name + " = " + v.latestValue;
+    } catch (err) {
+      return name + " = error: " + (err as Error).message;
+    }
+  }
+}
+
+/**
+ * Returns the dependency graph of the variables in a DAG (and the DAGs
+ * mounted in it) in Graphviz DOT format.  Edges point from variables to the
+ * variables that refer to them, scopes are drawn as clusters and names that
+ * are referred to but not defined are drawn dashed.
+ */
+export function toDot(dag: DAG, options: GraphOptions = {}): string {
+  const graph = new Graph(dag, options);
+  const quote = (s: string) => '"' + s.replace(/\\/g, "\\\\").replace(/"/g, '\\"') + '"';
+  const lines = ["digraph {", "  rankdir=LR;"];
+  let numClusters = 0;
+  const addCluster = (cluster: Cluster, indent: string) => {
+    for (const name of cluster.nodes) {
+      const style = graph.varOf(name) == null ? ", style=dashed" : "";
+      lines.push(`${indent}${quote(name)} [label=${quote(graph.label(name))}${style}];`);
+    }
+    for (const child of cluster.clusters.values()) {
+      lines.push(`${indent}subgraph cluster_${numClusters++} {`);
+      lines.push(`${indent}  label=${quote(child.name)};`);
+      addCluster(child, indent + "  ");
+      lines.push(indent + "}");
+    }
+  };
+  addCluster(graph.root, "  ");
+  for (const [from, to] of graph.edges) {
+    lines.push(`  ${quote(from)} -> ${quote(to)};`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Returns the dependency graph of the variables in a DAG as a Mermaid
+ * flowchart.  This is laid out the same way as toDot.
+ */
+export function toMermaid(dag: DAG, options: GraphOptions = {}): string {
+  const graph = new Graph(dag, options);
+  // Mermaid ids cannot contain dots so nodes are numbered
+  const ids = new Map(graph.nodes.map((name, i) => [name, "v" + i]));
+  const quote = (s: string) => '"' + s.replace(/"/g, "#quot;") + '"';
+  const lines = ["flowchart LR"];
+  let numClusters = 0;
+  const addCluster = (cluster: Cluster, indent: string) => {
+    for (const name of cluster.nodes) {
+      lines.push(`${indent}${ids.get(name)}[${quote(graph.label(name))}]`);
+    }
+    for (const child of cluster.clusters.values()) {
+      lines.push(`${indent}subgraph s${numClusters++} [${quote(child.name)}]`);
+      addCluster(child, indent + "  ");
+      lines.push(indent + "end");
+    }
+  };
+  addCluster(graph.root, "  ");
+  for (const [from, to] of graph.edges) {
+    lines.push(`  ${ids.get(from)} --> ${ids.get(to)}`);
+  }
+  const undefinedIds = graph.nodes.filter((name) => graph.varOf(name) == null).map((name) => ids.get(name));
+  if (undefinedIds.length > 0) {
+    lines.push("  classDef undefined stroke-dasharray: 5 5");
+    lines.push(`  class ${undefinedIds.join(",")} undefined`);
+  }
+  return lines.join("\n");
+}
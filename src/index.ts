@@ -1,3 +1,13 @@
 export * from "./core";
 export * as Parser from "./parser";
 export * as StdLib from "./stdlib";
+export * as TypeCheck from "./typecheck";
+export * as Formatter from "./formatter";
+export * as Calculus from "./calculus";
+export * as Optimizer from "./optimizer";
+export * as Solver from "./solver";
+export * as Compiler from "./compiler";
+export * as Graph from "./graph";
+export * as Trace from "./trace";
+export * as Numeric from "./numeric";
+export * as Uncertainty from "./uncertainty";
@@ -0,0 +1,582 @@
+import { ValueTypeError } from "./core";
+
+/**
+ * How numbers are represented and computed in a DAG (see DAG.numeric).
+ * Values may hold plain JS numbers (eg from DAG.newNum) as well as numbers
+ * of the backend so all operations accept both.  Functions like logarithms
+ * and roots convert their arguments to floats with toNumber.
+ */
+export interface NumericBackend {
+  readonly name: string;
+
+  /**
+   * Whether x is a number this backend can work with.
+   */
+  isNumber(x: any): boolean;
+  isInteger(x: any): boolean;
+
+  /**
+   * Converts a JS number (or a number of this backend) to this backend.
+   */
+  from(x: any): any;
+
+  /**
+   * Parses a numeric literal, eg 12 or 0.25.
+   */
+  parse(text: string): any;
+
+  add(a: any, b: any): any;
+  sub(a: any, b: any): any;
+  mul(a: any, b: any): any;
+  div(a: any, b: any): any;
+  pow(a: any, b: any): any;
+
+  /**
+   * Rounds to the given number of digits after the decimal point (or before
+   * it if negative).
+   */
+  round(a: any, digits: number): any;
+
+  /**
+   * Rounds down (towards negative infinity) to an integer.
+   */
+  floor(a: any): any;
+
+  /**
+   * Rounds up (towards positive infinity) to an integer.
+   */
+  ceil(a: any): any;
+
+  /**
+   * Negative, zero or positive if a is less than, equal to or greater than b.
+   */
+  compare(a: any, b: any): number;
+  isZero(a: any): boolean;
+  toNumber(a: any): number;
+}
+
+/**
+ * How results are rounded when they cannot be represented exactly, as in
+ * Java's RoundingMode: "up" and "down" are away from and towards zero and
+ * the "half" modes round to the nearest, with ties broken as named.
+ */
+export type RoundingMode = "half-even" | "half-up" | "half-down" | "up" | "down" | "floor" | "ceiling";
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const TEN = BigInt(10);
+
+function pow10(n: number): bigint {
+  return bigPow(TEN, n);
+}
+
+function bigPow(base: bigint, exponent: number): bigint {
+  let out = ONE;
+  for (; exponent > 0; exponent >>= 1) {
+    if (exponent & 1) out *= base;
+    base *= base;
+  }
+  return out;
+}
+
+function bigAbs(n: bigint): bigint {
+  return n < ZERO ? -n : n;
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+  a = bigAbs(a);
+  b = bigAbs(b);
+  while (b != ZERO) [a, b] = [b, a % b];
+  return a;
+}
+
+/**
+ * Returns n / d rounded to an integer with the given mode.
+ */
+function divRound(n: bigint, d: bigint, mode: RoundingMode): bigint {
+  if (d < ZERO) [n, d] = [-n, -d];
+  const q = n / d;
+  const r = bigAbs(n % d);
+  if (r == ZERO) return q;
+  const sign = n < ZERO ? -ONE : ONE;
+  let away: boolean;
+  switch (mode) {
+    case "up":
+      away = true;
+      break;
+    case "down":
+      away = false;
+      break;
+    case "floor":
+      away = sign < ZERO;
+      break;
+    case "ceiling":
+      away = sign > ZERO;
+      break;
+    case "half-up":
+      away = TWO * r >= d;
+      break;
+    case "half-down":
+      away = TWO * r > d;
+      break;
+    default:
+      away = TWO * r > d || (TWO * r == d && q % TWO != ZERO);
+  }
+  return away ? q + sign : q;
+}
+
+/**
+ * Checks that an exponent is an integer small enough to compute exactly.
+ */
+function exactExponent(backend: NumericBackend, b: any): number | null {
+  if (!backend.isInteger(b)) return null;
+  const n = backend.toNumber(b);
+  return Math.abs(n) <= 10000 ? n : null;
+}
+
+/**
+ * Native floating point arithmetic - the default.
+ */
+export class FloatBackend implements NumericBackend {
+  readonly name = "float";
+
+  isNumber(x: any): boolean {
+    return typeof x === "number";
+  }
+
+  isInteger(x: any): boolean {
+    return Number.isInteger(x);
+  }
+
+  from(x: any): number {
+    return Number(x);
+  }
+
+  parse(text: string): number {
+    return text.indexOf(".") >= 0 ? parseFloat(text) : parseInt(text);
+  }
+
+  add(a: any, b: any): number {
+    return a + b;
+  }
+
+  sub(a: any, b: any): number {
+    return a - b;
+  }
+
+  mul(a: any, b: any): number {
+    return a * b;
+  }
+
+  div(a: any, b: any): number {
+    return a / b;
+  }
+
+  pow(a: any, b: any): number {
+    return a ** b;
+  }
+
+  round(a: any, digits: number): number {
+    if (digits == 0) return Math.round(a);
+    const factor = 10 ** digits;
+    return Math.round(a * factor) / factor;
+  }
+
+  floor(a: any): number {
+    return Math.floor(a);
+  }
+
+  ceil(a: any): number {
+    return Math.ceil(a);
+  }
+
+  compare(a: any, b: any): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  isZero(a: any): boolean {
+    return a === 0;
+  }
+
+  toNumber(a: any): number {
+    return Number(a);
+  }
+}
+
+export const FLOAT = new FloatBackend();
+
+/**
+ * An arbitrary precision decimal number, ie coef / 10^scale.  Trailing zeros
+ * are always removed so equal numbers have the same representation.
+ */
+export class Decimal {
+  readonly coef: bigint;
+  readonly scale: number;
+
+  constructor(coef: bigint, scale = 0) {
+    for (; scale > 0 && coef % TEN == ZERO; scale--) coef /= TEN;
+    if (scale < 0) [coef, scale] = [coef * pow10(-scale), 0];
+    this.coef = coef;
+    this.scale = scale;
+  }
+
+  /**
+   * Parses numbers like 12, -0.25 or 1.5e-7.
+   */
+  static parse(text: string): Decimal {
+    const match = /^\s*([-+]?)(\d*)(?:\.(\d*))?(?:[eE]([-+]?\d+))?\s*$/.exec(text);
+    if (match == null || match[2] + (match[3] || "") == "") {
+      throw new ValueTypeError("Invalid number: " + text);
+    }
+    const [, sign, whole, fraction = "", exponent = "0"] = match;
+    const coef = BigInt((whole || "0") + fraction);
+    return new Decimal(sign == "-" ? -coef : coef, fraction.length - parseInt(exponent));
+  }
+
+  equals(another: any): boolean {
+    return another instanceof Decimal && another.coef == this.coef && another.scale == this.scale;
+  }
+
+  toString(): string {
+    const digits = bigAbs(this.coef)
+      .toString()
+      .padStart(this.scale + 1, "0");
+    const point = digits.length - this.scale;
+    const out = this.scale == 0 ? digits : digits.substring(0, point) + "." + digits.substring(point);
+    return this.coef < ZERO ? "-" + out : out;
+  }
+
+  valueOf(): number {
+    return Number(this.toString());
+  }
+
+  /**
+   * The exact text as JSON numbers are floats.
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+export interface DecimalOptions {
+  /**
+   * Digits kept after the decimal point when results (eg of division) are
+   * not exact.  Defaults to 20.
+   */
+  precision?: number;
+  rounding?: RoundingMode;
+}
+
+/**
+ * Exact decimal arithmetic, eg for currencies where 0.1 + 0.2 must be 0.3.
+ * Addition, subtraction and multiplication are exact and other results are
+ * rounded to the configured precision.  Powers with fractional exponents
+ * are computed with floats.
+ */
+export class DecimalBackend implements NumericBackend {
+  readonly name = "decimal";
+  readonly precision: number;
+  readonly rounding: RoundingMode;
+
+  constructor(options: DecimalOptions = {}) {
+    this.precision = options.precision ?? 20;
+    this.rounding = options.rounding ?? "half-even";
+  }
+
+  isNumber(x: any): boolean {
+    return x instanceof Decimal || typeof x === "number" || typeof x === "bigint";
+  }
+
+  isInteger(x: any): boolean {
+    return this.from(x).scale == 0;
+  }
+
+  from(x: any): Decimal {
+    if (x instanceof Decimal) return x;
+    if (typeof x === "bigint") return new Decimal(x);
+    if (typeof x !== "number" || !isFinite(x)) {
+      throw new ValueTypeError("Not a finite number: " + x);
+    }
+    // The shortest representation of floats is what was usually meant
+    return Decimal.parse(String(x));
+  }
+
+  parse(text: string): Decimal {
+    return Decimal.parse(text);
+  }
+
+  add(a: any, b: any): Decimal {
+    const [x, y] = [this.from(a), this.from(b)];
+    const scale = Math.max(x.scale, y.scale);
+    return new Decimal(x.coef * pow10(scale - x.scale) + y.coef * pow10(scale - y.scale), scale);
+  }
+
+  sub(a: any, b: any): Decimal {
+    const y = this.from(b);
+    return this.add(a, new Decimal(-y.coef, y.scale));
+  }
+
+  mul(a: any, b: any): Decimal {
+    const [x, y] = [this.from(a), this.from(b)];
+    return new Decimal(x.coef * y.coef, x.scale + y.scale);
+  }
+
+  div(a: any, b: any): Decimal {
+    const [x, y] = [this.from(a), this.from(b)];
+    const num = x.coef * pow10(this.precision + y.scale);
+    const den = y.coef * pow10(x.scale);
+    return new Decimal(divRound(num, den, this.rounding), this.precision);
+  }
+
+  pow(a: any, b: any): Decimal {
+    const n = exactExponent(this, b);
+    if (n == null) return this.from(this.toNumber(a) ** this.toNumber(b));
+    const x = this.from(a);
+    const out = new Decimal(bigPow(x.coef, Math.abs(n)), x.scale * Math.abs(n));
+    return n < 0 ? this.div(1, out) : out;
+  }
+
+  round(a: any, digits: number): Decimal {
+    const x = this.from(a);
+    if (x.scale <= digits) return x;
+    const coef = divRound(x.coef, pow10(x.scale - digits), this.rounding);
+    return new Decimal(coef, digits);
+  }
+
+  floor(a: any): Decimal {
+    const x = this.from(a);
+    return new Decimal(divRound(x.coef, pow10(x.scale), "floor"));
+  }
+
+  ceil(a: any): Decimal {
+    const x = this.from(a);
+    return new Decimal(divRound(x.coef, pow10(x.scale), "ceiling"));
+  }
+
+  compare(a: any, b: any): number {
+    const diff = this.sub(a, b).coef;
+    return diff < ZERO ? -1 : diff > ZERO ? 1 : 0;
+  }
+
+  isZero(a: any): boolean {
+    return this.from(a).coef == ZERO;
+  }
+
+  toNumber(a: any): number {
+    return Number(a instanceof Decimal ? a.toString() : a);
+  }
+}
+
+/**
+ * Arbitrary size integer arithmetic with native bigints.  Division
+ * truncates towards zero and non integers are rejected.
+ */
+export class BigIntBackend implements NumericBackend {
+  readonly name = "bigint";
+
+  constructor(public readonly rounding: RoundingMode = "half-even") {}
+
+  isNumber(x: any): boolean {
+    return typeof x === "bigint" || typeof x === "number";
+  }
+
+  isInteger(x: any): boolean {
+    return typeof x === "bigint" || Number.isInteger(x);
+  }
+
+  from(x: any): bigint {
+    if (typeof x === "bigint") return x;
+    if (!Number.isInteger(x)) throw new ValueTypeError("Not an integer: " + x);
+    return BigInt(x);
+  }
+
+  parse(text: string): bigint {
+    const d = Decimal.parse(text);
+    if (d.scale != 0) throw new ValueTypeError("Not an integer: " + text);
+    return d.coef;
+  }
+
+  add(a: any, b: any): bigint {
+    return this.from(a) + this.from(b);
+  }
+
+  sub(a: any, b: any): bigint {
+    return this.from(a) - this.from(b);
+  }
+
+  mul(a: any, b: any): bigint {
+    return this.from(a) * this.from(b);
+  }
+
+  div(a: any, b: any): bigint {
+    return this.from(a) / this.from(b);
+  }
+
+  pow(a: any, b: any): bigint {
+    const n = exactExponent(this, b);
+    if (n == null || n < 0) throw new ValueTypeError("Exponents must be non negative integers, found: " + b);
+    return bigPow(this.from(a), n);
+  }
+
+  round(a: any, digits: number): bigint {
+    if (digits >= 0) return this.from(a);
+    const factor = pow10(-digits);
+    return divRound(this.from(a), factor, this.rounding) * factor;
+  }
+
+  floor(a: any): bigint {
+    return this.from(a);
+  }
+
+  ceil(a: any): bigint {
+    return this.from(a);
+  }
+
+  compare(a: any, b: any): number {
+    const [x, y] = [this.from(a), this.from(b)];
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+
+  isZero(a: any): boolean {
+    return this.from(a) == ZERO;
+  }
+
+  toNumber(a: any): number {
+    return Number(a);
+  }
+}
+
+/**
+ * An exact fraction num / den in lowest terms with a positive denominator.
+ */
+export class Rational {
+  readonly num: bigint;
+  readonly den: bigint;
+
+  constructor(num: bigint, den: bigint = ONE) {
+    if (den == ZERO) throw new RangeError("Zero denominator");
+    if (den < ZERO) [num, den] = [-num, -den];
+    const d = gcd(num, den);
+    this.num = d > ONE ? num / d : num;
+    this.den = d > ONE ? den / d : den;
+  }
+
+  equals(another: any): boolean {
+    return another instanceof Rational && another.num == this.num && another.den == this.den;
+  }
+
+  toString(): string {
+    return this.den == ONE ? this.num.toString() : `${this.num}/${this.den}`;
+  }
+
+  valueOf(): number {
+    return Number(this.num) / Number(this.den);
+  }
+
+  /**
+   * The exact text as JSON numbers are floats.
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+/**
+ * Exact rational arithmetic, eg 1/3 * 3 is exactly 1.  Powers with
+ * fractional exponents are computed with floats.
+ */
+export class RationalBackend implements NumericBackend {
+  readonly name = "rational";
+
+  constructor(public readonly rounding: RoundingMode = "half-even") {}
+
+  isNumber(x: any): boolean {
+    return x instanceof Rational || typeof x === "number" || typeof x === "bigint";
+  }
+
+  isInteger(x: any): boolean {
+    return this.from(x).den == ONE;
+  }
+
+  from(x: any): Rational {
+    if (x instanceof Rational) return x;
+    if (typeof x === "bigint") return new Rational(x);
+    if (typeof x !== "number" || !isFinite(x)) {
+      throw new ValueTypeError("Not a finite number: " + x);
+    }
+    return this.parse(String(x));
+  }
+
+  /**
+   * Parses decimals or fractions, eg 0.25 or 1/3.
+   */
+  parse(text: string): Rational {
+    const parts = text.split("/");
+    if (parts.length == 2) {
+      const [num, den] = parts.map((part) => this.parse(part));
+      if (den.num == ZERO) throw new ValueTypeError("Invalid number: " + text);
+      return this.div(num, den);
+    }
+    const d = Decimal.parse(text);
+    return new Rational(d.coef, pow10(d.scale));
+  }
+
+  add(a: any, b: any): Rational {
+    const [x, y] = [this.from(a), this.from(b)];
+    return new Rational(x.num * y.den + y.num * x.den, x.den * y.den);
+  }
+
+  sub(a: any, b: any): Rational {
+    const y = this.from(b);
+    return this.add(a, new Rational(-y.num, y.den));
+  }
+
+  mul(a: any, b: any): Rational {
+    const [x, y] = [this.from(a), this.from(b)];
+    return new Rational(x.num * y.num, x.den * y.den);
+  }
+
+  div(a: any, b: any): Rational {
+    const [x, y] = [this.from(a), this.from(b)];
+    return new Rational(x.num * y.den, x.den * y.num);
+  }
+
+  pow(a: any, b: any): Rational {
+    const n = exactExponent(this, b);
+    if (n == null) return this.from(this.toNumber(a) ** this.toNumber(b));
+    const x = this.from(a);
+    const [num, den] = [bigPow(x.num, Math.abs(n)), bigPow(x.den, Math.abs(n))];
+    return n < 0 ? new Rational(den, num) : new Rational(num, den);
+  }
+
+  round(a: any, digits: number): Rational {
+    const x = this.from(a);
+    const factor = pow10(Math.abs(digits));
+    if (digits >= 0) return new Rational(divRound(x.num * factor, x.den, this.rounding), factor);
+    return new Rational(divRound(x.num, x.den * factor, this.rounding) * factor);
+  }
+
+  floor(a: any): Rational {
+    const x = this.from(a);
+    return new Rational(divRound(x.num, x.den, "floor"));
+  }
+
+  ceil(a: any): Rational {
+    const x = this.from(a);
+    return new Rational(divRound(x.num, x.den, "ceiling"));
+  }
+
+  compare(a: any, b: any): number {
+    const diff = this.sub(a, b).num;
+    return diff < ZERO ? -1 : diff > ZERO ? 1 : 0;
+  }
+
+  isZero(a: any): boolean {
+    return this.from(a).num == ZERO;
+  }
+
+  toNumber(a: any): number {
+    return Number(this.from(a));
+  }
+}
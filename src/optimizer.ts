@@ -0,0 +1,117 @@
+import { DAG, Expr, ExprType, FuncCall, Value } from "./core";
+import { isUncertain } from "./uncertainty";
+
+/**
+ * Simplifies expressions by:
+ *
+ * 1. Flattening chains of associative operators, eg (a + b) + c => +(a, b, c)
+ * 2. Removing identities, eg x + 0, x - 0, x * 1, x / 1, x ** 1 => x
+ * 3. Folding calls to pure functions with constant arguments, eg 2 * 3 => 6
+ * 4. Interning the result so structurally identical subexpressions are shared
+ *    (and evaluated only once).
+ */
+export class Optimizer {
+  /**
+   * Functions that are associative and accept any number of arguments.
+   */
+  associative = new Set(["+", "*"]);
+
+  constructor(public readonly dag: DAG) {}
+
+  /**
+   * Optimizes the expressions of the given variables (or all variables).
+   */
+  optimizeVars(varnames: string[] = this.dag.varNames()): void {
+    for (const name of varnames) {
+      const v = this.dag.getVar(name);
+      if (v == null) continue;
+      const expr = this.optimize(v.value);
+      if (expr !== v.value) {
+        const desc = v.desc;
+        this.dag.setValue(name, expr).desc = desc;
+      }
+    }
+  }
+
+  optimize(expr: Expr): Expr {
+    if (expr.type == ExprType.FUNCCALL) {
+      expr = this.optimizeCall(expr as FuncCall);
+    }
+    return this.dag.intern(expr);
+  }
+
+  protected optimizeCall(call: FuncCall): Expr {
+    const dag = this.dag;
+    const funcname = call.funcname;
+    let args = call.args.map((a) => this.optimize(a));
+    if (this.associative.has(funcname)) {
+      args = ([] as Expr[]).concat(
+        ...args.map((a) =>
+          a.type == ExprType.FUNCCALL && (a as FuncCall).funcname == funcname ? (a as FuncCall).args : [a],
+        ),
+      );
+    }
+    const reduced = this.removeIdentities(funcname, args);
+    if (reduced.length == 1 && args.length > 1) {
+      return reduced[0];
+    }
+    args = reduced;
+    const unchanged = args.length == call.args.length && args.every((a, i) => a === call.args[i]);
+    const out = unchanged ? call : dag.newFunc(funcname, args);
+    return this.fold(out);
+  }
+
+  /**
+   * Removes arguments that have no effect on the result.
+   */
+  protected removeIdentities(funcname: string, args: Expr[]): Expr[] {
+    if (funcname == "+") {
+      const out = args.filter((a) => !isConstant(a, 0));
+      return out.length == 0 ? [args[0]] : out;
+    } else if (funcname == "*") {
+      const out = args.filter((a) => !isConstant(a, 1));
+      return out.length == 0 ? [args[0]] : out;
+    } else if (funcname == "-" || funcname == "/") {
+      // Only the first argument is not an identity
+      const identity = funcname == "-" ? 0 : 1;
+      return [args[0], ...args.slice(1).filter((a) => !isConstant(a, identity))];
+    } else if (funcname == "**" && args.length == 2 && isConstant(args[1], 1)) {
+      return [args[0]];
+    }
+    return args;
+  }
+
+  /**
+   * Evaluates calls to pure functions whose arguments are all constants.
+   * Calls with error or pending arguments are left to be evaluated as usual
+   * as are those with uncertain arguments so that simulations still draw
+   * their inputs rather than the bounds of the result.
+   */
+  protected fold(call: FuncCall): Expr {
+    const info = this.dag.getFuncInfo(call.funcname);
+    // Results of asynchronous functions are only available later
+    if (!info?.pure || info.async || !call.args.every((a) => a.type == ExprType.VALUE)) {
+      return call;
+    }
+    const args = call.args as Value[];
+    if (args.some((a) => a.isError || a.isPending || isUncertain(a.value))) return call;
+    try {
+      const out = call.latestValue;
+      return out.isError || out.isPending ? call : out;
+    } catch (err) {
+      // Leave errors to be raised when evaluated
+      return call;
+    }
+  }
+}
+
+function isConstant(expr: Expr, value: number): boolean {
+  return expr.type == ExprType.VALUE && (expr as Value).value === value && (expr as Value).units == null;
+}
+
+/**
+ * Returns an optimized form of an expression.
+ */
+export function optimize(expr: Expr): Expr {
+  return new Optimizer(expr.dag).optimize(expr);
+}
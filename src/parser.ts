@@ -1,31 +1,65 @@
 import * as G from "galore";
 import * as TLEX from "tlex";
-import { DAG, Expr, Value } from "./core";
+import {
+  ArityError,
+  DAG,
+  Definition,
+  Expr,
+  ExprType,
+  FuncCall,
+  Lambda,
+  SourceSpan,
+  Units,
+  Value,
+  Var,
+  VarRef,
+} from "./core";
 
 /**
- * Our parser based on our own galore parser generator!
+ * Tokens shared by the expression and document grammars.
  */
-const [parser, itemGraph] = G.newParser(
-  String.raw`
-    %define IdentChar     /[^%!@&\^|\[\]={}()*\/<>+\-,;~: \t\f\r\n\v\\\.]/
+const Tokens = String.raw`
+    %define IdentChar     /[^%!@&\^|\[\]={}()*\/<>+\-,;~:? \t\f\r\n\v\\\.]/
 
-    %token  OPEN_PAREN    "("
-    %token  CLOSE_PAREN   ")"
+    %token  OPEN_PAREN    "("                       { toSourceToken }
+    %token  CLOSE_PAREN   ")"                       { toSourceToken }
+    %token  OPEN_SQ       "["                       { toSourceToken }
+    %token  CLOSE_SQ      "]"                       { toSourceToken }
+    %token  ARROW         "=>"                      { toSourceToken }
+    %token  OPEN_BRACE    "{"                       { toSourceToken }
+    %token  CLOSE_BRACE   "}"                       { toSourceToken }
+    %token  COLON         ":"
+    %token  DOT           "."
+    %token  QMARK         "?"                       { toSourceToken }
     %token  COMMA         ","
+    %token  SEMI          ";"
+    %token  ASSIGN        "="                       { toSourceToken }
 
+    %token  DESCRIPTION   /#[^\n]*/                { toDescription }
     %token  MULTI_LINE_RAW_STRING        /r(#{0,})"/  { toMultiLineRawString }
+    %token  NUMBER_WITH_UNITS   /-?\d+(\.(\d+)?)?[ \t]*\[[^\]\n]*\]/  { toNumberWithUnits }
     %token  NUMBER        /-?\d+(\.(\d+)?)?/        { toNumber }
     %token  BOOLEAN       /true|false/              { toBoolean }
     %token  STRING        /"([^"\\\n]|\\.|\\\n)*"/  { toString }
     %token  STRING        /'([^'\\\n]|\\.|\\\n)*'/  { toString }
-    %token  OP            /[-=\/+!*%<>&|^?~]+/
-    %token  IDENT         /{IdentChar}+/
+    %token  OP            /[-=\/+!*%<>&|^?~]+/     { toSourceToken }
+    %token  IDENT         /{IdentChar}+/            { toSourceToken }
     %skip                 /[ \t\n\f\r]+/
     %skip_flex            "//.*$"
     %skip                 /\/\*.*?\*\//
+`;
 
+/**
+ * Lambdas, eg x => x * 2, are only allowed as arguments to functions and as
+ * array elements.  Conditionals, eg c ? a : b, bind looser than all operators
+ * and are right associative.
+ */
+const ExprRules = String.raw`
+    Expr -> OpTerms QMARK Expr COLON Expr { newConditional }
+          | OpTerms
+          ;
 
-    Expr -> Expr OPList Term { concatOpExprList }
+    OpTerms -> OpTerms OPList Term { concatOpExprList }
           | OPList Term      { newOpExprList }
           | Term             { newOpExprList }
           ;
@@ -36,52 +70,206 @@ const [parser, itemGraph] = G.newParser(
 
     Term -> Literal
           | IDENT     { newVarRef }
-          | OPEN_PAREN Expr CLOSE_PAREN { $2 }
-          | IDENT ParenExpr { newFuncCall }
+          | OPEN_PAREN Expr CLOSE_PAREN { newParenExpr }
+          | IDENT OPEN_PAREN ExprCommaList CLOSE_PAREN { newFuncCall }
           | IDENT OPEN_PAREN CLOSE_PAREN  { newEmptyFuncCall }
+          | OPEN_SQ ExprCommaList CLOSE_SQ { newArray }
+          | OPEN_SQ CLOSE_SQ { newEmptyArray }
+          | Term OPEN_SQ Expr CLOSE_SQ { newIndex }
+          | Term DOT IDENT { newMember }
+          | OPEN_BRACE FieldList CLOSE_BRACE { newRecord }
+          | OPEN_BRACE CLOSE_BRACE { newEmptyRecord }
           ;
 
-    ParenExpr ->  OPEN_PAREN ExprCommaList CLOSE_PAREN { $2 } ;
+    FieldList -> FieldList COMMA Field { concatFieldList }
+              | Field { newFieldList }
+              ;
+
+    Field -> IDENT COLON Expr { newField }
+          | STRING COLON Expr { newField }
+          ;
 
-    ExprCommaList -> ExprCommaList COMMA Expr { concatCommaExprList }
-                  | Expr { newCommaExprList }
+    ExprCommaList -> ExprCommaList COMMA ListItem { concatCommaExprList }
+                  | ListItem { newCommaExprList }
                   ;
 
-    Literal -> STRING | MULTI_LINE_RAW_STRING | NUMBER | BOOLEAN ;
-    `,
-  {
-    allowLeftRecursion: true,
-    debug: "",
-    type: "lalr",
-    tokenHandlers: {
-      toBoolean: (token: TLEX.Token, tape: TLEX.Tape, owner: any) => {
-        token.value = owner.dag.newBool(token.value == "true");
-        return token;
-      },
-      toNumber: (token: TLEX.Token, tape: TLEX.Tape, owner: any) => {
-        const num = token.value.indexOf(".") >= 0 ? parseFloat(token.value) : parseInt(token.value);
-        token.value = owner.dag.newNum(num);
-        return token;
-      },
-      toString: (token: TLEX.Token, tape: TLEX.Tape, owner: any) => {
-        token.value = owner.dag.newStr(token.value.substring(1, token.value.length - 1));
-        return token;
-      },
-      toMultiLineRawString: (token: TLEX.Token, tape: TLEX.Tape, owner: any) => {
-        // consume everything until "#<N times> as start
-        const hashes = tape.substring(token.positions[1][0], token.positions[1][1]);
-        const endPat = '"' + hashes;
-        const startPos = tape.index;
-        const endPos = TLEX.TapeHelper.advanceAfter(tape, endPat) - endPat.length;
-        if (endPos < 0) {
-          throw new Error("EOF expected while finding end of Raw String Literal: '" + endPat + "'");
-        }
-        token.value = owner.dag.newStr(tape.substring(startPos, endPos));
-        return token;
-      },
+    ListItem -> Expr | Lambda ;
+
+    Lambda -> IDENT ARROW Expr { newLambda } ;
+
+    Literal -> STRING | MULTI_LINE_RAW_STRING | NUMBER | NUMBER_WITH_UNITS | BOOLEAN ;
+`;
+
+/**
+ * A document is a list of assignments optionally separated by semicolons,
+ * each preceded by optional "#" description lines, eg:
+ *
+ * ```
+ * # Price of a single unit
+ * price = 10;
+ * total = price * qty   // comments are ignored
+ * qty = 3
+ * # Functions can be defined too
+ * margin(rev, cost) = (rev - cost) / rev
+ * ```
+ */
+const DocumentRules = String.raw`
+    Document -> Document Statement
+              | Statement
+              ;
+
+    Statement -> Definition
+              | Definition SEMI
+              ;
+
+    Definition -> Descriptions Assignment { describedAssignment }
+              | Assignment
+              ;
+
+    Descriptions -> Descriptions DESCRIPTION { concatDescriptions }
+                  | DESCRIPTION { newDescriptions }
+                  ;
+
+    Assignment -> IDENT ASSIGN Expr { newAssignment }
+              | IDENT OPEN_PAREN ParamList CLOSE_PAREN ASSIGN Expr { newFuncAssignment }
+              | IDENT OPEN_PAREN CLOSE_PAREN ASSIGN Expr { newFuncAssignment }
+              ;
+
+    ParamList -> ParamList COMMA IDENT { concatParamList }
+              | IDENT { newParamList }
+              ;
+`;
+
+const GrammarOptions = {
+  allowLeftRecursion: true,
+  debug: "",
+  type: "lalr",
+  tokenHandlers: {
+    toDescription: (token: TLEX.Token, tape: TLEX.Tape, owner: any) => {
+      token.value = token.value.substring(1).trim();
+      return token;
+    },
+    toSourceToken: (token: TLEX.Token, tape: TLEX.Tape, owner: any) => {
+      token.value = new SourceToken(token.value, { start: token.start, end: token.end });
+      return token;
+    },
+    toBoolean: (token: TLEX.Token, tape: TLEX.Tape, owner: any) => {
+      // Not the DAG's singletons as each literal carries its own span
+      token.value = new Value(owner.dag, token.value == "true");
+      token.value.span = { start: token.start, end: token.end };
+      return token;
+    },
+    toNumber: (token: TLEX.Token, tape: TLEX.Tape, owner: any) => {
+      const span = { start: token.start, end: token.end };
+      token.value = parseNum(owner, token.value, null, span);
+      token.value.span = span;
+      return token;
+    },
+    toNumberWithUnits: (token: TLEX.Token, tape: TLEX.Tape, owner: any) => {
+      // of the form: <number> [<units>], eg 3 [m/s]
+      const text: string = token.value;
+      const bracket = text.indexOf("[");
+      const numText = text.substring(0, bracket).trim();
+      const span = { start: token.start, end: token.end };
+      let units = null;
+      try {
+        units = owner.dag.parseUnits(text.substring(bracket + 1, text.length - 1));
+      } catch (err: any) {
+        throw new ParseError(err.message, owner.input, span);
+      }
+      token.value = parseNum(owner, numText, units, span);
+      token.value.span = span;
+      return token;
+    },
+    toString: (token: TLEX.Token, tape: TLEX.Tape, owner: any) => {
+      token.value = owner.dag.newStr(token.value.substring(1, token.value.length - 1));
+      token.value.span = { start: token.start, end: token.end };
+      return token;
+    },
+    toMultiLineRawString: (token: TLEX.Token, tape: TLEX.Tape, owner: any) => {
+      // consume everything until "#<N times> as start
+      const hashes = tape.substring(token.positions[1][0], token.positions[1][1]);
+      const endPat = '"' + hashes;
+      const startPos = tape.index;
+      const endPos = TLEX.TapeHelper.advanceAfter(tape, endPat) - endPat.length;
+      if (endPos < 0) {
+        throw new ParseError(
+          "Unterminated raw string literal, expected: '" + endPat + "'",
+          owner.input,
+          { start: token.start, end: owner.input.length },
+          [endPat],
+        );
+      }
+      token.value = owner.dag.newStr(tape.substring(startPos, endPos));
+      token.value.span = { start: token.start, end: endPos + endPat.length };
+      return token;
     },
   },
-);
+};
+
+/**
+ * Our parser based on our own galore parser generator!
+ */
+const [parser, itemGraph] = G.newParser(Tokens + ExprRules, GrammarOptions);
+const [documentParser] = G.newParser(Tokens + DocumentRules + ExprRules, GrammarOptions);
+
+/**
+ * Text of a token along with where it was found in the input.
+ */
+export class SourceToken {
+  constructor(public readonly text: string, public readonly span: SourceSpan) {}
+}
+
+/**
+ * Returns the 1 based line and column of an offset in the input.
+ */
+export function lineAndColumn(input: string, offset: number): [number, number] {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < input.length; i++) {
+    if (input[i] == "\n") {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return [line, offset - lineStart + 1];
+}
+
+/**
+ * Errors raised when parsing fails.  The message points at the location of
+ * the error with a caret, eg:
+ *
+ * ```
+ * Line 1, Column 3: Invalid operator: %%
+ *   1 %% 2
+ *     ^^
+ * ```
+ */
+export class ParseError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(
+    public readonly reason: string,
+    public readonly input: string,
+    public readonly span: SourceSpan,
+    public readonly expected: string[] = [],
+  ) {
+    super(ParseError.format(reason, input, span, expected));
+    [this.line, this.column] = lineAndColumn(input, span.start);
+  }
+
+  static format(reason: string, input: string, span: SourceSpan, expected: string[]): string {
+    const [line, column] = lineAndColumn(input, span.start);
+    const lineText = input.split("\n")[line - 1] || "";
+    const width = Math.max(1, Math.min(span.end, span.start + lineText.length - column + 1) - span.start);
+    let out = `Line ${line}, Column ${column}: ${reason}`;
+    if (expected.length > 0) {
+      out += " (expected: " + expected.join(", ") + ")";
+    }
+    return out + "\n  " + lineText + "\n  " + " ".repeat(column - 1) + "^".repeat(width);
+  }
+}
 
 /**
  * An expression that is just a compound expression of the form
@@ -91,16 +279,32 @@ export class OpExpr {
   _finalExpr: Expr | null = null;
   isOP: boolean[] = [];
   children: (string | Expr)[] = [];
+  spans: (SourceSpan | null)[] = [];
 
-  push(...op_or_expr: (string | Expr)[]): this {
+  push(...op_or_expr: (string | SourceToken | Expr)[]): this {
     for (const op of op_or_expr) {
-      this.children.push(op);
-      this.isOP.push(typeof op === "string");
+      if (op instanceof SourceToken) {
+        this.children.push(op.text);
+        this.spans.push(op.span);
+      } else {
+        this.children.push(op);
+        this.spans.push(typeof op === "string" ? null : op.span);
+      }
+      this.isOP.push(!(op instanceof Expr));
     }
     return this;
   }
 }
 
+/**
+ * Raised when a document has one or more errors.
+ */
+export class DocumentError extends Error {
+  constructor(public readonly errors: ParseError[]) {
+    super(errors.map((e) => e.message).join("\n"));
+  }
+}
+
 export class Operator {
   static readonly LEFT = -1;
   static readonly NOASSOC = 0;
@@ -117,15 +321,66 @@ export class Operator {
 }
 
 export class Parser {
-  errors: TLEX.TokenizerError[] = [];
+  errors: ParseError[] = [];
+  input = "";
+  definitions: Definition[] = [];
   protected ruleHandlers = {
+    newAssignment: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      const ident: SourceToken = children[0].value;
+      const expr = this.ensureExpr(children[2].value);
+      const out: Definition = {
+        name: ident.text,
+        expr: expr,
+        desc: "",
+        span: { start: ident.span.start, end: expr.span?.end ?? ident.span.end },
+      };
+      // Definitions are collected as they are reduced so those before an
+      // error are kept when recovering from it
+      this.definitions.push(out);
+      return out;
+    },
+    newFuncAssignment: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      const ident: SourceToken = children[0].value;
+      const params: SourceToken[] = children.length == 6 ? children[2].value : [];
+      const expr = this.ensureExpr(children[children.length - 1].value);
+      const out: Definition = {
+        name: ident.text,
+        params: params.map((p) => p.text),
+        expr: expr,
+        desc: "",
+        span: { start: ident.span.start, end: expr.span?.end ?? ident.span.end },
+      };
+      this.definitions.push(out);
+      return out;
+    },
+    newParamList: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      return [children[0].value];
+    },
+    concatParamList: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      const params: SourceToken[] = children[0].value;
+      params.push(children[2].value);
+      return params;
+    },
+    describedAssignment: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      const out: Definition = children[1].value;
+      out.desc = children[0].value.join("\n");
+      return out;
+    },
+    newDescriptions: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      return [children[0].value];
+    },
+    concatDescriptions: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      const lines: string[] = children[0].value;
+      lines.push(children[1].value);
+      return lines;
+    },
     newOpExprList: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
       const out = new OpExpr();
       let term: OpExpr | Expr;
       if (children.length == 1) {
         term = children[0].value;
       } else {
-        const oplist: string[] = children[0].value;
+        const oplist: SourceToken[] = children[0].value;
         term = children[1].value;
         out.push(...oplist);
       }
@@ -134,34 +389,126 @@ export class Parser {
     },
     concatOpExprList: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
       const lhsExpr: OpExpr = children[0].value;
-      const oplist: string[] = children[1].value;
+      const oplist: SourceToken[] = children[1].value;
       const rhsTerm: OpExpr | Expr = children[2].value;
       lhsExpr.push(...oplist);
       lhsExpr.push(this.ensureExpr(rhsTerm));
       return lhsExpr;
     },
+    newConditional: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      const cond = this.ensureExpr(children[0].value);
+      const qmark: SourceToken = children[1].value;
+      const args = [cond, this.ensureExpr(children[2].value), this.ensureExpr(children[4].value)];
+      return this.newFunc("if", args, {
+        start: cond.span?.start ?? qmark.span.start,
+        end: args[2].span?.end ?? qmark.span.end,
+      });
+    },
     newOpList: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
       return [children[0].value];
     },
     concatOpList: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
-      const lhsExprs: string[] = children[0].value;
-      const rhsExpr: string = children[1].value;
+      const lhsExprs: SourceToken[] = children[0].value;
+      const rhsExpr: SourceToken = children[1].value;
       lhsExprs.push(rhsExpr);
       return lhsExprs;
     },
     newVarRef: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
-      return this.dag.newVarRef(children[0].value);
+      const ident: SourceToken = children[0].value;
+      const out = this.dag.newVarRef(ident.text);
+      out.span = ident.span;
+      return out;
     },
-    unaryFuncCall: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
-      let v = children[1].value;
-      if (!Array.isArray(v)) v = [v];
-      return this.dag.newFunc(children[0].value, v);
+    newParenExpr: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      return this.ensureExpr(children[1].value);
     },
     newFuncCall: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
-      return this.dag.newFunc(children[0].value, children[1].value);
+      const ident: SourceToken = children[0].value;
+      const closeParen: SourceToken = children[3].value;
+      return this.newFunc(ident, children[2].value, { start: ident.span.start, end: closeParen.span.end });
     },
     newEmptyFuncCall: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
-      return this.dag.newFunc(children[0].value, []);
+      const ident: SourceToken = children[0].value;
+      const closeParen: SourceToken = children[2].value;
+      return this.newFunc(ident, [], { start: ident.span.start, end: closeParen.span.end });
+    },
+    newArray: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      const openSq: SourceToken = children[0].value;
+      const closeSq: SourceToken = children[2].value;
+      return this.newFunc("array", children[1].value, { start: openSq.span.start, end: closeSq.span.end });
+    },
+    newEmptyArray: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      const openSq: SourceToken = children[0].value;
+      const closeSq: SourceToken = children[1].value;
+      return this.newFunc("array", [], { start: openSq.span.start, end: closeSq.span.end });
+    },
+    newIndex: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      const array: Expr = this.ensureExpr(children[0].value);
+      const openSq: SourceToken = children[1].value;
+      const closeSq: SourceToken = children[3].value;
+      const index = this.ensureExpr(children[2].value);
+      return this.newFunc("index", [array, index], {
+        start: array.span?.start ?? openSq.span.start,
+        end: closeSq.span.end,
+      });
+    },
+    newMember: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      const record: Expr = this.ensureExpr(children[0].value);
+      const name: SourceToken = children[2].value;
+      // Names in scopes, eg tax.rate, are references rather than field accesses
+      if (record.type == ExprType.VARREF && this.dag.getScope((record as VarRef).name) != null) {
+        const out = this.dag.newVarRef((record as VarRef).name + "." + name.text);
+        out.span = { start: record.span?.start ?? name.span.start, end: name.span.end };
+        return out;
+      }
+      const nameValue = this.dag.newStr(name.text);
+      nameValue.span = name.span;
+      return this.newFunc("field", [record, nameValue], {
+        start: record.span?.start ?? name.span.start,
+        end: name.span.end,
+      });
+    },
+    newRecord: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      const openBrace: SourceToken = children[0].value;
+      const closeBrace: SourceToken = children[2].value;
+      const fields: Expr[][] = children[1].value;
+      return this.newFunc("record", ([] as Expr[]).concat(...fields), {
+        start: openBrace.span.start,
+        end: closeBrace.span.end,
+      });
+    },
+    newEmptyRecord: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      const openBrace: SourceToken = children[0].value;
+      const closeBrace: SourceToken = children[1].value;
+      return this.newFunc("record", [], { start: openBrace.span.start, end: closeBrace.span.end });
+    },
+    newFieldList: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      return [children[0].value];
+    },
+    concatFieldList: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      const fields: Expr[][] = children[0].value;
+      fields.push(children[2].value);
+      return fields;
+    },
+    newField: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      // Names are either identifiers or string literals
+      let name: Value;
+      if (children[0].value instanceof SourceToken) {
+        const ident: SourceToken = children[0].value;
+        name = this.dag.newStr(ident.text);
+        name.span = ident.span;
+      } else {
+        name = children[0].value;
+      }
+      return [name, this.ensureExpr(children[2].value)];
+    },
+    newLambda: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
+      const param: SourceToken = children[0].value;
+      const arrow: SourceToken = children[1].value;
+      const body = this.ensureExpr(children[2].value);
+      const out = this.dag.newLambda([param.text], body);
+      out.span = { start: param.span.start, end: body.span?.end ?? arrow.span.end };
+      return out;
     },
     newCommaExprList: (rule: G.Rule, parent: G.PTNode, ...children: G.PTNode[]) => {
       // return an expr as a list
@@ -178,19 +525,186 @@ export class Parser {
 
   constructor(public dag: DAG) {}
 
+  /**
+   * Parses an expression.  Throws a ParseError on the first error found.
+   */
   parse(input: string): Expr {
     this.errors = [];
-    const ptree = parser.parse(input, {
-      tokenizerContext: this,
-      ruleHandlers: this.ruleHandlers,
-      onTokenError: (err: TLEX.TokenizerError) => {
-        this.errors.push(err);
-        return true;
-      },
-    });
+    const ptree = this.run(parser, input);
+    if (this.errors.length > 0) {
+      throw this.errors[0];
+    }
     return this.ensureExpr(ptree?.value);
   }
 
+  /**
+   * Parses a document of assignments (see DocumentRules).  On a syntax error
+   * parsing resumes from the next statement so that all errors in the
+   * document are reported together.  Definitions are also checked for
+   * duplicates, references to undefined variables and circular references
+   * (including via variables already in the DAG).  Throws a DocumentError
+   * with all errors found.
+   */
+  parseDocument(input: string): Definition[] {
+    this.errors = [];
+    this.definitions = [];
+    let source = input;
+    while (hasStatements(source)) {
+      try {
+        this.run(documentParser, source);
+        break;
+      } catch (err: any) {
+        const perr = this.toParseError(err);
+        this.errors.push(perr);
+        // Blank out everything up to the end of the failed statement so that
+        // offsets and line numbers remain unchanged
+        const resume = nextStatementStart(input, perr.span.start);
+        source = input.substring(0, resume).replace(/[^\n]/g, " ") + input.substring(resume);
+      }
+    }
+    this.input = input;
+    this.checkDefinitions(this.definitions);
+    if (this.errors.length > 0) {
+      throw new DocumentError(this.errors);
+    }
+    return this.definitions;
+  }
+
+  /**
+   * Parses a document and defines all variables in it in the DAG.
+   */
+  load(input: string): Var[] {
+    return this.dag.load(input, this);
+  }
+
+  protected run(p: any, input: string): G.PTNode | null {
+    this.input = input;
+    try {
+      return p.parse(input, {
+        tokenizerContext: this,
+        ruleHandlers: this.ruleHandlers,
+        onTokenError: (err: TLEX.TokenizerError) => {
+          this.errors.push(
+            new ParseError(err.message, input, { start: err.offset, end: err.offset + Math.max(1, err.length) }),
+          );
+          return true;
+        },
+      });
+    } catch (err: any) {
+      throw this.toParseError(err);
+    }
+  }
+
+  /**
+   * Checks definitions in a document for duplicates, undefined references
+   * and cycles.  Function bodies may only refer to their parameters.
+   */
+  protected checkDefinitions(definitions: Definition[]): void {
+    const byName = new Map<string, Definition>();
+    const funcs = new Map<string, Definition>();
+    const error = (message: string, span: SourceSpan | null) => {
+      this.errors.push(new ParseError(message, this.input, span || this.endSpan));
+    };
+    for (const def of definitions) {
+      const defs = def.params ? funcs : byName;
+      const existing = this.dag.getFuncInfo(def.name);
+      if (defs.has(def.name)) {
+        error(`Duplicate definition of ${def.params ? "function" : "variable"}: ` + def.name, def.span);
+      } else if (def.params && existing != null && existing.body == null) {
+        error("Cannot redefine registered function: " + def.name, def.span);
+      } else {
+        defs.set(def.name, def);
+      }
+    }
+    for (const def of funcs.values()) {
+      const params = def.params || [];
+      if (new Set(params).size != params.length) {
+        error("Duplicate parameter in function: " + def.name, def.span);
+      }
+      forEachVarRef(def.expr, (ref) => {
+        if (!params.includes(ref.name)) {
+          error(`Undefined parameter in function ${def.name}: ${ref.name}`, ref.span);
+        }
+      });
+    }
+    for (const def of byName.values()) {
+      forEachVarRef(def.expr, (ref) => {
+        if (!byName.has(ref.name) && this.dag.getVar(ref.name) == null) {
+          error("Undefined variable: " + ref.name, ref.span);
+        }
+      });
+    }
+
+    // Look for cycles - following existing variables in the DAG unless redefined
+    const depsOf = (name: string): Set<string> => {
+      const def = byName.get(name);
+      return this.dag.varsReferencedBy(def ? def.expr : this.dag.getVar(name)?.value || null);
+    };
+    const done = new Set<string>();
+    const path: string[] = [];
+    const visit = (name: string) => {
+      const index = path.indexOf(name);
+      if (index >= 0) {
+        const cycle = [...path.slice(index), name];
+        error("Circular reference: " + cycle.join(" -> "), byName.get(cycle[0])?.span || null);
+        return;
+      }
+      if (done.has(name)) return;
+      path.push(name);
+      for (const dep of depsOf(name)) visit(dep);
+      path.pop();
+      done.add(name);
+    };
+    for (const name of byName.keys()) visit(name);
+  }
+
+  /**
+   * Converts errors raised by the parser or tokenizer into a ParseError.
+   */
+  protected toParseError(err: any): ParseError {
+    if (err instanceof ParseError) return err;
+    if (err instanceof TLEX.UnexpectedTokenError) {
+      const token = err.foundToken;
+      const expected = (err.expectedTokens || []).map((t: any) => String(t?.tag ?? t));
+      if (token == null) {
+        return new ParseError("Unexpected end of input", this.input, this.endSpan, expected);
+      }
+      const span = { start: token.start, end: token.end };
+      return new ParseError(
+        "Unexpected token: " + this.input.substring(span.start, span.end),
+        this.input,
+        span,
+        expected,
+      );
+    }
+    if (err instanceof TLEX.TokenizerError) {
+      return new ParseError(err.message, this.input, { start: err.offset, end: err.offset + Math.max(1, err.length) });
+    }
+    return new ParseError(err.message || String(err), this.input, this.endSpan);
+  }
+
+  protected get endSpan(): SourceSpan {
+    return { start: this.input.length, end: this.input.length };
+  }
+
+  /**
+   * Creates a function call covering the given span, reporting arity errors
+   * as parse errors.
+   */
+  protected newFunc(name: SourceToken | string, args: Expr[], span: SourceSpan): Expr {
+    const funcname = typeof name === "string" ? name : name.text;
+    try {
+      const out = this.dag.newFunc(funcname, args);
+      out.span = span;
+      return out;
+    } catch (err: any) {
+      if (err instanceof ArityError) {
+        throw new ParseError(err.message, this.input, typeof name === "string" ? span : name.span);
+      }
+      throw err;
+    }
+  }
+
   opinfos = new Map<string, Operator>();
   setOP(...ops: Operator[]): this {
     for (const op of ops) {
@@ -208,9 +722,19 @@ export class Parser {
     let i = 0;
     const opex = ex as OpExpr;
     const children = opex.children;
+    const spans = opex.spans;
     const isOP = opex.isOP;
     const opinfos = this.opinfos;
-    const dag = this.dag;
+    const input = this.input;
+    const endSpan = this.endSpan;
+    const newFunc = (name: string, args: Expr[], opSpan: SourceSpan | null) => {
+      const start = Math.min(...[opSpan, ...args.map((a) => a.span)].map((s) => s?.start ?? Infinity));
+      const end = Math.max(...[opSpan, ...args.map((a) => a.span)].map((s) => s?.end ?? -Infinity));
+      return this.newFunc(name, args, { start: start, end: end });
+    };
+    function error(message: string, index: number): ParseError {
+      return new ParseError(message, input, spans[index] || endSpan);
+    }
     function hasMore(): boolean {
       return i < children.length;
     }
@@ -218,44 +742,50 @@ export class Parser {
       return i;
     }
     function next(): number {
-      if (!hasMore()) throw new Error("No more tokens");
+      if (!hasMore()) {
+        throw new ParseError("Unexpected end of expression", input, spans[i - 1] || endSpan);
+      }
       return i++;
     }
-    function getOp(op: string): Operator {
-      const opinfo = opinfos.get(op) || null;
+    function getOp(index: number): Operator {
+      const opinfo = opinfos.get(children[index] as string) || null;
       if (opinfo == null) {
-        throw new Error("Invalid operator: " + op);
+        throw error("Invalid operator: " + children[index], index);
       }
       return opinfo;
     }
     function bpof(index: number): number {
       if (!isOP[index]) {
-        throw new Error("Item at index is not an operator: " + index);
+        throw error("Expected an operator", index);
       }
-      const op = getOp(children[index] as string);
+      const op = getOp(index);
       return op.bp;
     }
     function nud(index: number): Expr {
       if (!isOP[index]) {
         return children[index] as Expr;
       }
-      const op = getOp(children[index] as string);
+      const op = getOp(index);
       if (op.prefixBP < 0) {
-        throw new Error(`(${op}) is not be a prefix operator`);
+        throw error(`(${op.op}) is not a prefix operator`, index);
       }
-      return dag.newFunc(op.op, [parse(op.prefixBP)]);
+      return newFunc(op.op, [parse(op.prefixBP)], spans[index]);
     }
     function led(index: number, left: Expr): Expr {
       if (!isOP[index]) {
-        throw new Error("Expressions cannot have an LED method");
+        throw error("Expressions cannot have an LED method", index);
       }
-      const op = getOp(children[index] as string);
+      const op = getOp(index);
       if (op.assoc == Operator.LEFT) {
-        return dag.newFunc(op.op, [left, parse(op.bp)]);
+        return newFunc(op.op, [left, parse(op.bp)], spans[index]);
       } else if (op.assoc == Operator.RIGHT) {
-        return dag.newFunc(op.op, [left, parse(op.bp - 1)]);
+        return newFunc(op.op, [left, parse(op.bp - 1)], spans[index]);
       } else {
-        throw new Error(`OP (${op.op}) has nonassoc`);
+        const right = parse(op.bp);
+        if (hasMore() && isOP[peek()] && getOp(peek()).bp == op.bp) {
+          throw error(`(${op.op}) is non-associative and cannot be chained with (${children[peek()]})`, peek());
+        }
+        return newFunc(op.op, [left, right], spans[index]);
       }
     }
     function parse(rbp = 0): Expr {
@@ -296,4 +826,53 @@ export const JSOperators = [
   new Operator("|", 880),
   new Operator("&&", 870),
   new Operator("||", 860),
+  new Operator("??", 850), // Nullish coalescing
 ];
+
+/**
+ * Returns true if the input has anything other than whitespace and comments.
+ */
+function hasStatements(input: string): boolean {
+  return (
+    input
+      .replace(/\/\*[\s\S]*?\*\//g, "")
+      .replace(/\/\/.*$/gm, "")
+      .trim() != ""
+  );
+}
+
+/**
+ * Returns the offset just after the end of the statement containing the
+ * given offset, ie after the next ";" or newline.
+ */
+function nextStatementStart(input: string, offset: number): number {
+  for (let i = offset; i < input.length; i++) {
+    if (input[i] == ";" || input[i] == "\n") return i + 1;
+  }
+  return input.length;
+}
+
+/**
+ * Creates a numeric literal with the numeric backend of the parser's DAG,
+ * reporting literals it cannot represent (eg 1.5 for bigints) as parse errors.
+ */
+function parseNum(owner: any, text: string, units: Units | null, span: SourceSpan): Value {
+  try {
+    return owner.dag.parseNum(text, units);
+  } catch (err: any) {
+    throw new ParseError(err.message, owner.input, span);
+  }
+}
+
+function forEachVarRef(expr: Expr, visitor: (ref: VarRef) => void): void {
+  if (expr.type == ExprType.VARREF) {
+    visitor(expr as VarRef);
+  } else if (expr.type == ExprType.FUNCCALL) {
+    for (const arg of (expr as FuncCall).args) forEachVarRef(arg, visitor);
+  } else if (expr.type == ExprType.LAMBDA) {
+    const lambda = expr as Lambda;
+    forEachVarRef(lambda.body, (ref) => {
+      if (!lambda.params.includes(ref.name)) visitor(ref);
+    });
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Numeric root finding and least squares minimisation used by DAG.solve.
+ * These work on plain numeric functions and know nothing about DAGs.
+ */
+
+export type Bounds = [number, number];
+
+export interface SolverOptions {
+  /**
+   * A solution is accepted once the absolute residual is within this.
+   */
+  tolerance?: number;
+  maxIterations?: number;
+}
+
+export interface SolverResult {
+  method: "bisection" | "newton" | "least-squares";
+  converged: boolean;
+  // The best point found (even when not converged)
+  x: number[];
+  // The largest absolute residual at x
+  residual: number;
+  iterations: number;
+  evaluations: number;
+  message: string;
+}
+
+const DEFAULT_TOLERANCE = 1e-9;
+const DEFAULT_MAX_ITERATIONS = 100;
+
+/**
+ * Finds a root of f.  If bounds are given and bracket a sign change then a
+ * Newton iteration safeguarded by bisection is used and always converges.
+ * Otherwise a plain Newton iteration (with a finite difference derivative and
+ * step halving when f is undefined) is started from x0 and kept within bounds.
+ */
+export function findRoot(
+  f: (x: number) => number,
+  x0: number,
+  bounds: Bounds | null,
+  options: SolverOptions = {},
+): SolverResult {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  let evaluations = 0;
+  const evalf = (x: number) => {
+    evaluations++;
+    return f(x);
+  };
+  const result = (
+    method: SolverResult["method"],
+    x: number,
+    fx: number,
+    iterations: number,
+    message: string,
+  ): SolverResult => {
+    const residual = Math.abs(fx);
+    return {
+      method: method,
+      converged: residual <= tolerance,
+      x: [x],
+      residual: isNaN(residual) ? Infinity : residual,
+      iterations: iterations,
+      evaluations: evaluations,
+      message: residual <= tolerance ? "Converged" : message,
+    };
+  };
+
+  if (bounds != null) {
+    let [lo, hi] = bounds;
+    let flo = evalf(lo);
+    let fhi = evalf(hi);
+    if (Math.abs(flo) <= tolerance) return result("bisection", lo, flo, 0, "");
+    if (Math.abs(fhi) <= tolerance) return result("bisection", hi, fhi, 0, "");
+    if (flo * fhi < 0) {
+      let x = Math.min(Math.max(x0, lo), hi);
+      let fx = evalf(x);
+      let dx = hi - lo;
+      for (let i = 1; i <= maxIterations; i++) {
+        if (Math.abs(fx) <= tolerance) return result("bisection", x, fx, i - 1, "");
+        // Keep the bracket around the root
+        if (fx * flo < 0) {
+          hi = x;
+          fhi = fx;
+        } else {
+          lo = x;
+          flo = fx;
+        }
+        const slope = derivativeAt(evalf, x, fx, dx);
+        let next = x - fx / slope;
+        if (!isFinite(next) || next <= lo || next >= hi) {
+          next = (lo + hi) / 2;
+        }
+        dx = Math.abs(next - x);
+        x = next;
+        fx = evalf(x);
+        if (hi - lo <= Number.EPSILON * Math.max(1, Math.abs(x))) {
+          return result("bisection", x, fx, i, "Bracket collapsed without reaching the tolerance");
+        }
+      }
+      return result("bisection", x, fx, maxIterations, "Did not converge in " + maxIterations + " iterations");
+    }
+  }
+
+  const clamp = (x: number) => (bounds == null ? x : Math.min(Math.max(x, bounds[0]), bounds[1]));
+  let x = clamp(x0);
+  let fx = evalf(x);
+  if (!isFinite(fx)) return result("newton", x, fx, 0, "Objective is not defined at the starting point");
+  for (let i = 1; i <= maxIterations; i++) {
+    if (Math.abs(fx) <= tolerance) return result("newton", x, fx, i - 1, "");
+    const slope = derivativeAt(evalf, x, fx, 0);
+    if (slope == 0 || !isFinite(slope)) {
+      return result("newton", x, fx, i, "Derivative vanished at " + x);
+    }
+    let step = fx / slope;
+    let next = clamp(x - step);
+    let fnext = evalf(next);
+    // Backtrack until we land somewhere the objective is defined
+    while (!isFinite(fnext) && Math.abs(step) > Number.EPSILON * Math.max(1, Math.abs(x))) {
+      step /= 2;
+      next = clamp(x - step);
+      fnext = evalf(next);
+    }
+    if (!isFinite(fnext) || next == x) {
+      return result("newton", x, fx, i, "Stalled at " + x);
+    }
+    x = next;
+    fx = fnext;
+  }
+  return result("newton", x, fx, maxIterations, "Did not converge in " + maxIterations + " iterations");
+}
+
+/**
+ * Minimises the sum of squares of the residuals with the Levenberg-Marquardt
+ * method, using a finite difference Jacobian and keeping x within bounds.
+ */
+export function leastSquares(
+  residuals: (x: number[]) => number[],
+  x0: number[],
+  bounds: (Bounds | null)[] = [],
+  options: SolverOptions = {},
+): SolverResult {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const n = x0.length;
+  let evaluations = 0;
+  const evalr = (x: number[]) => {
+    evaluations++;
+    return residuals(x);
+  };
+  const clamp = (x: number[]) =>
+    x.map((xi, i) => (bounds[i] == null ? xi : Math.min(Math.max(xi, bounds[i]![0]), bounds[i]![1])));
+  const result = (x: number[], r: number[], iterations: number, message: string): SolverResult => {
+    const residual = Math.max(0, ...r.map(Math.abs));
+    return {
+      method: "least-squares",
+      converged: residual <= tolerance,
+      x: x,
+      residual: isNaN(residual) ? Infinity : residual,
+      iterations: iterations,
+      evaluations: evaluations,
+      message: residual <= tolerance ? "Converged" : message,
+    };
+  };
+
+  let x = clamp(x0);
+  let r = evalr(x);
+  let cost = sumOfSquares(r);
+  if (!isFinite(cost)) return result(x, r, 0, "Objective is not defined at the starting point");
+  let lambda = 1e-3;
+  for (let i = 1; i <= maxIterations; i++) {
+    if (Math.max(...r.map(Math.abs)) <= tolerance) return result(x, r, i - 1, "");
+    // Jacobian by forward differences - J[k][j] = d r_k / d x_j
+    const J = r.map(() => new Array<number>(n).fill(0));
+    for (let j = 0; j < n; j++) {
+      const h = Math.sqrt(Number.EPSILON) * Math.max(1, Math.abs(x[j]));
+      const xh = [...x];
+      xh[j] += h;
+      const rh = evalr(xh);
+      for (let k = 0; k < r.length; k++) J[k][j] = (rh[k] - r[k]) / h;
+    }
+    // Normal equations: (JtJ + lambda * diag(JtJ)) delta = -Jt r
+    const JtJ = [...Array(n)].map((_, a) => [...Array(n)].map((_, b) => J.reduce((s, row) => s + row[a] * row[b], 0)));
+    const Jtr = [...Array(n)].map((_, a) => J.reduce((s, row, k) => s + row[a] * r[k], 0));
+    if (Jtr.every((g) => g == 0)) return result(x, r, i, "Gradient vanished at " + JSON.stringify(x));
+    let improved = false;
+    while (lambda < 1e12) {
+      const A = JtJ.map((row, a) => row.map((v, b) => (a == b ? v + lambda * Math.max(v, 1e-12) : v)));
+      const delta = solveLinear(
+        A,
+        Jtr.map((g) => -g),
+      );
+      if (delta != null) {
+        const next = clamp(x.map((xi, j) => xi + delta[j]));
+        const rnext = evalr(next);
+        const nextCost = sumOfSquares(rnext);
+        if (nextCost < cost) {
+          x = next;
+          r = rnext;
+          cost = nextCost;
+          lambda = Math.max(lambda / 10, 1e-12);
+          improved = true;
+          break;
+        }
+      }
+      lambda *= 10;
+    }
+    if (!improved) return result(x, r, i, "Stalled at " + JSON.stringify(x));
+  }
+  return result(x, r, maxIterations, "Did not converge in " + maxIterations + " iterations");
+}
+
+/**
+ * Central difference derivative of f at x, with a step no larger than maxStep
+ * (when non zero) so it stays within a bracket.
+ */
+function derivativeAt(f: (x: number) => number, x: number, fx: number, maxStep: number): number {
+  let h = Math.sqrt(Number.EPSILON) * Math.max(1, Math.abs(x));
+  if (maxStep > 0) h = Math.min(h, maxStep / 2);
+  const fplus = f(x + h);
+  const fminus = f(x - h);
+  if (isFinite(fplus) && isFinite(fminus)) return (fplus - fminus) / (2 * h);
+  if (isFinite(fplus)) return (fplus - fx) / h;
+  return (fx - fminus) / h;
+}
+
+function sumOfSquares(values: number[]): number {
+  return values.reduce((s, v) => s + v * v, 0);
+}
+
+/**
+ * Solves A x = b with Gaussian elimination and partial pivoting.  Returns null
+ * if A is singular.
+ */
+function solveLinear(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(M[row][col]) > Math.abs(M[pivot][col])) pivot = row;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-300) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = M[row][col] / M[col][col];
+      for (let k = col; k <= n; k++) M[row][k] -= factor * M[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let s = M[row][n];
+    for (let k = row + 1; k < n; k++) s -= M[row][k] * x[k];
+    x[row] = s / M[row][row];
+  }
+  return x;
+}
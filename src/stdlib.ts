@@ -1,139 +1,934 @@
-import { DAG, Value, Expr } from "./core";
+import {
+  ArrayError,
+  RecordError,
+  isRecord,
+  DAG,
+  ErrorCode,
+  Value,
+  Expr,
+  ExprType,
+  Units,
+  UnitsError,
+  ValueType,
+  ValueTypeError,
+  DerivativeRule,
+  FuncCall,
+  FuncType,
+  LazyFuncType,
+} from "./core";
+import { difference, isZero, power, product, quotient, sum } from "./calculus";
+import { Distribution, Interval, Normal, Triangular, Uniform } from "./uncertainty";
+
+const NUMBER = [ValueType.INT, ValueType.FLOAT];
+// Numbers or arrays of numbers for functions applied element wise
+const NUMBERS = [...NUMBER, ValueType.ARRAY];
+
+/**
+ * Return type of arithmetic that is INT only if all its inputs are INTs
+ * (or an ARRAY if any of its inputs are).
+ */
+const numericResult = (argTypes: ValueType[]): ValueType =>
+  argTypes.includes(ValueType.ARRAY)
+    ? ValueType.ARRAY
+    : argTypes.every((t) => t == ValueType.INT)
+    ? ValueType.INT
+    : ValueType.FLOAT;
+
+/**
+ * Return type of functions applied element wise that otherwise return t.
+ */
+const elementwise =
+  (t: ValueType) =>
+  (argTypes: ValueType[]): ValueType =>
+    argTypes.includes(ValueType.ARRAY) ? ValueType.ARRAY : t;
+
+/**
+ * Return type of functions returning one of their arguments - the common type
+ * of those arguments if they all have the same type.
+ */
+const commonType = (argTypes: ValueType[]): ValueType =>
+  argTypes.every((t) => t == argTypes[0]) ? argTypes[0] : ValueType.ANY;
 
 export function PopulateDAG(dag: DAG): DAG {
-  dag.regFunc("+", Plus);
-  dag.regFunc("*", Mult);
-  dag.regFunc("/", Div);
-  dag.regFunc("-", Minus);
-  dag.regFunc("**", Pow);
-  dag.regFunc("^", BitwiseXor);
-  dag.regFunc("|", BitwiseOr);
-  dag.regFunc("ceil", Ceiling);
-  dag.regFunc("floor", Floor);
-  dag.regFunc("round", Round);
+  const numeric = { paramTypes: [NUMBERS], returnType: numericResult, pure: true };
+  const unary = { paramNames: ["value"], paramTypes: [NUMBERS], pure: true };
+  const binary = { paramNames: ["a", "b"], paramTypes: [NUMBERS], pure: true };
+  const aggregate = { paramNames: ["values"], paramTypes: [NUMBERS], minArgs: 1, variadic: true, pure: true };
+  dag.regFunc("+", Plus, {
+    ...numeric,
+    paramNames: ["values"],
+    minArgs: 1,
+    variadic: true,
+    doc: "Sum of all values",
+    inline: (args) => args.join(" + "),
+    derivative: PlusDerivative,
+  });
+  dag.regFunc("*", Mult, {
+    ...numeric,
+    paramNames: ["values"],
+    minArgs: 1,
+    variadic: true,
+    doc: "Product of all values",
+    inline: (args) => args.join(" * "),
+    derivative: MultDerivative,
+  });
+  dag.regFunc("-", Minus, {
+    ...numeric,
+    paramNames: ["value", "values"],
+    minArgs: 1,
+    variadic: true,
+    doc: "First value minus all the remaining values",
+    inline: (args) => args.join(" - "),
+    derivative: MinusDerivative,
+  });
+  dag.regFunc("/", Div, {
+    ...numeric,
+    paramNames: ["value", "values"],
+    returnType: elementwise(ValueType.FLOAT),
+    minArgs: 1,
+    variadic: true,
+    doc: "First value divided by all the remaining values",
+    inline: (args) => args.join(" / "),
+    derivative: DivDerivative,
+    turningPoints: (index) => (index > 0 ? [0] : []),
+  });
+  dag.regFunc("**", Pow, {
+    ...binary,
+    paramNames: ["base", "exponent"],
+    returnType: elementwise(ValueType.FLOAT),
+    doc: "base raised to the power exponent",
+    inline: ([base, exponent]) => `${base} ** ${exponent}`,
+    derivative: PowDerivative,
+    turningPoints: (index) => (index == 0 ? [0] : []),
+  });
+  dag.regFunc("root", Root, {
+    ...binary,
+    paramNames: ["value", "n"],
+    returnType: elementwise(ValueType.FLOAT),
+    doc: "The n-th root of value",
+    inline: ([value, n]) => `${value} ** (1 / ${n})`,
+    derivative: RootDerivative,
+  });
+  dag.regFunc("log", Log, {
+    ...unary,
+    returnType: elementwise(ValueType.FLOAT),
+    doc: "Natural logarithm of value",
+    inline: ([value]) => `Math.log(${value})`,
+    derivative: LogDerivative(1),
+  });
+  dag.regFunc("log10", Log10, {
+    ...unary,
+    returnType: elementwise(ValueType.FLOAT),
+    doc: "Base 10 logarithm of value",
+    inline: ([value]) => `Math.log10(${value})`,
+    derivative: LogDerivative(Math.LN10),
+  });
+  dag.regFunc("log2", Log2, {
+    ...unary,
+    returnType: elementwise(ValueType.FLOAT),
+    doc: "Base 2 logarithm of value",
+    inline: ([value]) => `Math.log2(${value})`,
+    derivative: LogDerivative(Math.LN2),
+  });
+  dag.regFunc("^", BitwiseXor, {
+    ...binary,
+    returnType: elementwise(ValueType.INT),
+    doc: "Bitwise xor of a and b",
+    inline: ([a, b]) => `${a} ^ ${b}`,
+  });
+  dag.regFunc("|", BitwiseOr, {
+    ...binary,
+    returnType: elementwise(ValueType.INT),
+    doc: "Bitwise or of a and b",
+    inline: ([a, b]) => `${a} | ${b}`,
+  });
+  dag.regFunc("ceil", Ceiling, {
+    ...unary,
+    returnType: elementwise(ValueType.INT),
+    doc: "Rounds value up to the nearest integer",
+    inline: ([value]) => `Math.ceil(${value})`,
+    derivative: StepDerivative,
+  });
+  dag.regFunc("floor", Floor, {
+    ...unary,
+    returnType: elementwise(ValueType.INT),
+    doc: "Rounds value down to the nearest integer",
+    inline: ([value]) => `Math.floor(${value})`,
+    derivative: StepDerivative,
+  });
+  dag.regFunc("round", Round, {
+    ...unary,
+    returnType: elementwise(ValueType.INT),
+    doc: "Rounds value to the nearest integer",
+    inline: ([value]) => `Math.round(${value})`,
+    derivative: StepDerivative,
+  });
+  dag.regFunc("convert", Convert, {
+    paramNames: ["value", "units"],
+    paramTypes: [NUMBERS, ValueType.STRING],
+    returnType: elementwise(ValueType.FLOAT),
+    pure: true,
+    doc: 'Converts value to compatible units, eg convert(x, "km/h")',
+  });
+  dag.regFunc("array", MakeArray, {
+    paramNames: ["values"],
+    minArgs: 0,
+    variadic: true,
+    returnType: ValueType.ARRAY,
+    pure: true,
+    doc: "Array of the given values, written [a, b, ...]",
+  });
+  dag.regFunc("index", Index, {
+    paramNames: ["array", "index"],
+    paramTypes: [ValueType.ARRAY, ValueType.INT],
+    pure: true,
+    doc: "Element at the (0 based) index of an array, written array[index]",
+  });
+  dag.regFunc("sum", Sum, { ...aggregate, doc: "Sum of all values including the elements of arrays" });
+  dag.regFunc("avg", Avg, {
+    ...aggregate,
+    returnType: ValueType.FLOAT,
+    doc: "Average of all values including the elements of arrays",
+  });
+  dag.regFunc("min", Min, { ...aggregate, doc: "Smallest of all values including the elements of arrays" });
+  dag.regFunc("max", Max, { ...aggregate, doc: "Largest of all values including the elements of arrays" });
+  dag.regFunc("count", Count, {
+    ...aggregate,
+    paramTypes: [ValueType.ANY],
+    returnType: ValueType.INT,
+    doc: "Number of values including the elements of arrays",
+  });
+  dag.regFunc("map", ArrayMap, {
+    paramNames: ["array", "f"],
+    paramTypes: [ValueType.ARRAY, ValueType.FUNCTION],
+    returnType: ValueType.ARRAY,
+    pure: true,
+    doc: "Array of f applied to each element, eg map(xs, x => x * 2)",
+  });
+  dag.regFunc("filter", ArrayFilter, {
+    paramNames: ["array", "f"],
+    paramTypes: [ValueType.ARRAY, ValueType.FUNCTION],
+    returnType: ValueType.ARRAY,
+    pure: true,
+    doc: "Array of the elements for which f is true, eg filter(xs, x => x > 0)",
+  });
+  dag.regFunc("record", MakeRecord, {
+    paramNames: ["name", "value"],
+    minArgs: 0,
+    variadic: true,
+    returnType: ValueType.RECORD,
+    pure: true,
+    doc: "Record with the given names and values, written {name: value, ...}",
+  });
+  dag.regFunc("field", Field, {
+    paramNames: ["record", "name"],
+    paramTypes: [ValueType.RECORD, ValueType.STRING],
+    pure: true,
+    doc: "Value of a field of a record, written record.name",
+  });
+  const comparison = { ...binary, paramTypes: [ValueType.ANY], returnType: elementwise(ValueType.BOOL) };
+  dag.regFunc("==", Equal, { ...comparison, doc: "Whether a equals b", derivative: StepDerivative });
+  dag.regFunc("!=", NotEqual, { ...comparison, doc: "Whether a does not equal b", derivative: StepDerivative });
+  dag.regFunc("<", Less, { ...comparison, doc: "Whether a is less than b", derivative: StepDerivative });
+  dag.regFunc("<=", LessOrEqual, {
+    ...comparison,
+    doc: "Whether a is less than or equal to b",
+    derivative: StepDerivative,
+  });
+  dag.regFunc(">", Greater, { ...comparison, doc: "Whether a is greater than b", derivative: StepDerivative });
+  dag.regFunc(">=", GreaterOrEqual, {
+    ...comparison,
+    doc: "Whether a is greater than or equal to b",
+    derivative: StepDerivative,
+  });
+  dag.regFunc("!", Not, {
+    paramNames: ["value"],
+    paramTypes: [ValueType.ANY],
+    returnType: elementwise(ValueType.BOOL),
+    pure: true,
+    doc: "Whether value is false, null, 0 or empty",
+  });
+  dag.regLazyFunc("if", If, {
+    paramNames: ["condition", "then", "else"],
+    minArgs: 2,
+    maxArgs: 3,
+    returnType: (argTypes) => commonType(argTypes.length > 2 ? argTypes.slice(1) : [argTypes[1], ValueType.NULL]),
+    pure: true,
+    doc: "then if condition is true, else else (or null), written condition ? then : else",
+    derivative: IfDerivative,
+  });
+  dag.regLazyFunc("switch", Switch, {
+    paramNames: ["value", "case", "result"],
+    minArgs: 1,
+    variadic: true,
+    returnType: (argTypes) =>
+      commonType([
+        ...argTypes.filter((_, i) => i > 0 && i % 2 == 0),
+        argTypes.length % 2 == 0 ? argTypes[argTypes.length - 1] : ValueType.NULL,
+      ]),
+    pure: true,
+    doc: "The result following the first case equal to value, else the last argument if unpaired (or null)",
+  });
+  const logical = { paramNames: ["values"], minArgs: 1, variadic: true, returnType: commonType, pure: true };
+  dag.regLazyFunc("&&", And, { ...logical, doc: "The first false value, else the last value" });
+  dag.regLazyFunc("||", Or, { ...logical, doc: "The first true value, else the last value" });
+  dag.regLazyFunc("??", Coalesce, { ...logical, doc: "The first value that is not null" });
+  dag.regLazyFunc("coalesce", Coalesce, { ...logical, doc: "The first value that is not null" });
+  dag.regLazyFunc("iferror", IfError, {
+    paramNames: ["value", "fallback"],
+    returnType: commonType,
+    pure: true,
+    handlesErrors: true,
+    doc: "value unless it is an error, else fallback",
+  });
+  dag.regLazyFunc("iserror", IsError, {
+    paramNames: ["value"],
+    paramTypes: [ValueType.ANY],
+    returnType: ValueType.BOOL,
+    pure: true,
+    handlesErrors: true,
+    doc: "Whether value is an error, eg #DIV/0",
+  });
+  const uncertain = { paramTypes: [NUMBER], returnType: ValueType.ANY, pure: true };
+  dag.regFunc("interval", MakeInterval, {
+    ...uncertain,
+    paramNames: ["lo", "hi"],
+    doc: "A value only known to be between lo and hi",
+  });
+  dag.regFunc("uniform", MakeUniform, {
+    ...uncertain,
+    paramNames: ["lo", "hi"],
+    doc: "A value uniformly distributed between lo and hi",
+  });
+  dag.regFunc("normal", MakeNormal, {
+    ...uncertain,
+    paramNames: ["mean", "stddev"],
+    doc: "A normally distributed value",
+  });
+  dag.regFunc("triangular", MakeTriangular, {
+    ...uncertain,
+    paramNames: ["lo", "mode", "hi"],
+    doc: "A value between lo and hi with a triangular distribution peaking at mode",
+  });
+  PopulateUnits(dag);
   return dag;
 }
 
+/**
+ * Registers conversions between commonly used units.
+ */
+export function PopulateUnits(dag: DAG): DAG {
+  dag.regUnitConversion("km", "m", 1000);
+  dag.regUnitConversion("cm", "m", 0.01);
+  dag.regUnitConversion("mm", "m", 0.001);
+  dag.regUnitConversion("mi", "m", 1609.344);
+  dag.regUnitConversion("ft", "m", 0.3048);
+  dag.regUnitConversion("in", "m", 0.0254);
+  dag.regUnitConversion("g", "kg", 0.001);
+  dag.regUnitConversion("min", "s", 60);
+  dag.regUnitConversion("h", "s", 3600);
+  dag.regUnitConversion("day", "s", 86400);
+  return dag;
+}
+
+/**
+ * Returns the numeric value of v in the given units.
+ */
+function inUnits(dag: DAG, v: Value, units: Units | null): any {
+  return v.units === units ? v.value : dag.numeric.mul(v.value, dag.unitsFactor(v.units, units));
+}
+
+/**
+ * Lifts a function on scalars to one applied element wise when any of its
+ * arguments are arrays (all of which must be of the same length).  Scalar
+ * arguments are used with every element, eg [1, 2] * 3 = [3, 6].
+ */
+function broadcast(f: FuncType): FuncType {
+  const out = (dag: DAG, args: Value[]): Value => {
+    const arrays = args.filter((a) => Array.isArray(a.value));
+    if (arrays.length == 0) return f(dag, args);
+    const length = arrays[0].value.length;
+    for (const a of arrays) {
+      if (a.value.length != length) {
+        throw new ArrayError(`Arrays of different lengths: ${length} and ${a.value.length}`);
+      }
+    }
+    const results = [...Array(length)].map((_, i) =>
+      out(
+        dag,
+        args.map((a) => (Array.isArray(a.value) ? new Value(dag, a.value[i], a.units) : a)),
+      ),
+    );
+    // An error for any element is the error for the whole array
+    return results.find((r) => r.isError) || dag.newArray(results);
+  };
+  return out;
+}
+
+/**
+ * Returns the values in args with arrays replaced by their elements.
+ */
+function flatten(args: Value[], out: Value[] = []): Value[] {
+  for (const a of args) {
+    if (Array.isArray(a.value)) {
+      flatten(a.elements, out);
+    } else {
+      out.push(a);
+    }
+  }
+  return out;
+}
+
+function ensureFunction(funcname: string, v: Value): (...args: Value[]) => Value {
+  if (typeof v.value !== "function") {
+    throw new ValueTypeError(`${funcname} expects a function, found ${JSON.stringify(v.value)}`);
+  }
+  return v.value;
+}
+
+function ensureDimensionless(funcname: string, ...args: Value[]): void {
+  for (const v of args) {
+    if (v.units != null) {
+      throw new UnitsError(`${funcname} expects dimensionless values, found (${v.units})`);
+    }
+  }
+}
+
 /**
  * Returns the addition of a bunch of sub-expressions.
  */
-export const Plus = (dag: DAG, args: Value[]): Value => {
-  let out = 0;
+export const Plus = broadcast((dag: DAG, args: Value[]): Value => {
+  const units = args.length > 0 ? args[0].units : null;
+  let out: any = 0;
   for (const v of args) {
-    out += v.value;
+    out = dag.numeric.add(out, inUnits(dag, v, units));
   }
-  return new Value(dag, out);
-};
+  return new Value(dag, out, units);
+});
 
 /**
  * Returns the multiplication of a bunch of sub-expressions.
  */
-export const Mult = (dag: DAG, args: Value[]): Value => {
-  let out = 1;
+export const Mult = broadcast((dag: DAG, args: Value[]): Value => {
+  let out: any = 1;
+  let units: Units | null = null;
   for (const v of args) {
-    out *= v.value;
+    out = dag.numeric.mul(out, v.value);
+    units = dag.mulUnits(units, v.units);
   }
-  return new Value(dag, out);
-};
+  return new Value(dag, out, units);
+});
 
 /**
  * Returns arg[0] - arg[1] - arg[2] ... - arg[n]
  */
-export const Minus = (dag: DAG, args: Value[]): Value => {
+export const Minus = broadcast((dag: DAG, args: Value[]): Value => {
+  const units = args[0].units;
   let out = args[0].value;
   for (let i = 1; i < args.length; i++) {
-    out -= args[i].value;
+    out = dag.numeric.sub(out, inUnits(dag, args[i], units));
   }
-  return new Value(dag, out);
-};
+  return new Value(dag, out, units);
+});
 
 /**
  * Returns arg[0] / arg[1] / arg[2] ... / arg[n]
  */
-export const Div = (dag: DAG, args: Value[]): Value => {
+export const Div = broadcast((dag: DAG, args: Value[]): Value => {
   let out = args[0].value;
+  let units = args[0].units;
   for (let i = 1; i < args.length; i++) {
-    out /= args[i].value;
+    if (dag.numeric.isZero(args[i].value)) return dag.newError(ErrorCode.DIV0, "Division by zero");
+    out = dag.numeric.div(out, args[i].value);
+    units = dag.divUnits(units, args[i].units);
   }
-  return new Value(dag, out);
-};
+  return new Value(dag, out, units);
+});
 
 /**
  * Returns args[0] ** args[1]
  */
-export const Pow = (dag: DAG, args: Value[]): Value => {
-  const out = args[0].value ** args[1].value;
-  return new Value(dag, out);
-};
+export const Pow = broadcast((dag: DAG, args: Value[]): Value => {
+  ensureDimensionless("Pow", args[1]);
+  if (dag.numeric.isZero(args[0].value) && dag.numeric.compare(args[1].value, 0) < 0) {
+    return dag.newError(ErrorCode.DIV0, "Division by zero");
+  }
+  const out = dag.numeric.pow(args[0].value, args[1].value);
+  return new Value(dag, out, dag.powUnits(args[0].units, dag.numeric.toNumber(args[1].value)));
+});
 
 /**
- * Returns args[0] ^ (1 / args[1])
+ * Returns args[0] ^ (1 / args[1]), as a float whatever the numeric backend
  */
-export const Root = (dag: DAG, args: Value[]): Value => {
-  const out = args[0].value ** (1 / args[1].value);
-  return new Value(dag, out);
-};
+export const Root = broadcast((dag: DAG, args: Value[]): Value => {
+  ensureDimensionless("Root", args[1]);
+  const n = dag.numeric.toNumber(args[1].value);
+  const out = dag.numeric.toNumber(args[0].value) ** (1 / n);
+  return new Value(dag, out, dag.powUnits(args[0].units, 1 / n));
+});
 
 /**
- * Returns log(args[0], base e)
+ * Returns log(args[0], base e), as a float whatever the numeric backend
  */
-export const Log = (dag: DAG, args: Value[]): Value => {
-  const out = Math.log(args[0].value);
+export const Log = broadcast((dag: DAG, args: Value[]): Value => {
+  ensureDimensionless("Log", args[0]);
+  const out = Math.log(dag.numeric.toNumber(args[0].value));
   return new Value(dag, out);
-};
+});
 
 /**
- * Returns log(args[0], base 10)
+ * Returns log(args[0], base 10), as a float whatever the numeric backend
  */
-export const Log10 = (dag: DAG, args: Value[]): Value => {
-  const out = Math.log10(args[0].value);
+export const Log10 = broadcast((dag: DAG, args: Value[]): Value => {
+  ensureDimensionless("Log10", args[0]);
+  const out = Math.log10(dag.numeric.toNumber(args[0].value));
   return new Value(dag, out);
-};
+});
 
 /**
- * Returns log(args[0], base 2)
+ * Returns log(args[0], base 2), as a float whatever the numeric backend
  */
-export const Log2 = (dag: DAG, args: Value[]): Value => {
-  const out = Math.log2(args[0].value);
+export const Log2 = broadcast((dag: DAG, args: Value[]): Value => {
+  ensureDimensionless("Log2", args[0]);
+  const out = Math.log2(dag.numeric.toNumber(args[0].value));
   return new Value(dag, out);
-};
+});
 
 /**
  * Rounds to nearest int
  */
-export const Round = (dag: DAG, args: Value[]): Value => {
-  const out = Math.round(args[0].value);
-  return new Value(dag, out);
-};
+export const Round = broadcast((dag: DAG, args: Value[]): Value => {
+  const out = dag.numeric.round(args[0].value, 0);
+  return new Value(dag, out, args[0].units);
+});
 
 /**
  * Rounds up to nearest int
  */
-export const Ceiling = (dag: DAG, args: Value[]): Value => {
-  const out = Math.ceil(args[0].value);
-  return new Value(dag, out);
-};
+export const Ceiling = broadcast((dag: DAG, args: Value[]): Value => {
+  const out = dag.numeric.ceil(args[0].value);
+  return new Value(dag, out, args[0].units);
+});
 
 /**
  * Rounds down to nearest int
  */
-export const Floor = (dag: DAG, args: Value[]): Value => {
-  const out = Math.floor(args[0].value);
-  return new Value(dag, out);
-};
+export const Floor = broadcast((dag: DAG, args: Value[]): Value => {
+  const out = dag.numeric.floor(args[0].value);
+  return new Value(dag, out, args[0].units);
+});
 
 /**
  * Returns args[0] ^ args[1]
  */
-export const BitwiseXor = (dag: DAG, args: Value[]): Value => {
+export const BitwiseXor = broadcast((dag: DAG, args: Value[]): Value => {
+  ensureDimensionless("BitwiseXor", ...args);
   const out = args[0].value ^ args[1].value;
   return new Value(dag, out);
-};
+});
 
 /**
  * Returns args[0] | args[1]
  */
-export const BitwiseOr = (dag: DAG, args: Value[]): Value => {
+export const BitwiseOr = broadcast((dag: DAG, args: Value[]): Value => {
+  ensureDimensionless("BitwiseOr", ...args);
   const out = args[0].value | args[1].value;
   return new Value(dag, out);
+});
+
+/**
+ * Returns args[0] converted to the units described by the string args[1], eg
+ * convert(x, "km/h").
+ */
+export const Convert = broadcast((dag: DAG, args: Value[]): Value => {
+  return dag.convertValue(args[0], dag.parseUnits(args[1].value));
+});
+
+/**
+ * Returns an array of all args - see DAG.newArray.
+ */
+export const MakeArray = (dag: DAG, args: Value[]): Value => {
+  return dag.newArray(args);
+};
+
+/**
+ * Returns args[0][args[1]]
+ */
+export const Index = (dag: DAG, args: Value[]): Value => {
+  const [array, index] = args;
+  if (!Array.isArray(array.value)) {
+    throw new ArrayError("Cannot index a value that is not an array: " + JSON.stringify(array.value));
+  }
+  const num = dag.numeric;
+  const i = num.isNumber(index.value) && num.isInteger(index.value) ? num.toNumber(index.value) : NaN;
+  if (!Number.isInteger(i) || i < 0 || i >= array.value.length) {
+    throw new ArrayError(`Index ${index} out of range for an array of length ${array.value.length}`);
+  }
+  return new Value(dag, array.value[i], array.units);
+};
+
+/**
+ * Returns the sum of all args and elements of array args.
+ */
+export const Sum = (dag: DAG, args: Value[]): Value => {
+  return Plus(dag, flatten(args));
+};
+
+/**
+ * Returns the average of all args and elements of array args.
+ */
+export const Avg = (dag: DAG, args: Value[]): Value => {
+  const values = flatten(args);
+  if (values.length == 0) throw new ArrayError("Cannot average an empty array");
+  return Div(dag, [Plus(dag, values), new Value(dag, values.length)]);
+};
+
+/**
+ * Returns the smallest of all args and elements of array args.
+ */
+export const Min = (dag: DAG, args: Value[]): Value => {
+  return extremum(dag, "min", flatten(args), (a, b) => a < b);
+};
+
+/**
+ * Returns the largest of all args and elements of array args.
+ */
+export const Max = (dag: DAG, args: Value[]): Value => {
+  return extremum(dag, "max", flatten(args), (a, b) => a > b);
+};
+
+function extremum(dag: DAG, funcname: string, values: Value[], better: (a: any, b: any) => boolean): Value {
+  if (values.length == 0) throw new ArrayError(`${funcname} of an empty array`);
+  const units = values[0].units;
+  let out = values[0].value;
+  for (const v of values) {
+    const value = inUnits(dag, v, units);
+    if (better(value, out)) out = value;
+  }
+  return new Value(dag, out, units);
+}
+
+/**
+ * Returns the number of args and elements of array args.
+ */
+export const Count = (dag: DAG, args: Value[]): Value => {
+  return new Value(dag, flatten(args).length);
+};
+
+/**
+ * Returns [args[1](x) for x in args[0]]
+ */
+export const ArrayMap = (dag: DAG, args: Value[]): Value => {
+  const f = ensureFunction("map", args[1]);
+  return dag.newArray(args[0].elements.map((x) => f(x)));
+};
+
+/**
+ * Returns [x for x in args[0] if args[1](x)]
+ */
+export const ArrayFilter = (dag: DAG, args: Value[]): Value => {
+  const f = ensureFunction("filter", args[1]);
+  const out = args[0].elements.filter((x) => f(x).value);
+  return new Value(
+    dag,
+    out.map((x) => x.value),
+    args[0].units,
+  );
+};
+
+/**
+ * Returns {args[0]: args[1], args[2]: args[3], ...}
+ */
+export const MakeRecord = (dag: DAG, args: Value[]): Value => {
+  if (args.length % 2 != 0) {
+    throw new RecordError("Records need a value for every name");
+  }
+  const fields: { [name: string]: Value } = {};
+  for (let i = 0; i < args.length; i += 2) {
+    if (typeof args[i].value !== "string") {
+      throw new RecordError("Record field names must be strings: " + JSON.stringify(args[i].value));
+    }
+    fields[args[i].value] = args[i + 1];
+  }
+  return dag.newRecord(fields);
+};
+
+/**
+ * Returns args[0][args[1]]
+ */
+export const Field = (dag: DAG, args: Value[]): Value => {
+  const [record, name] = args;
+  if (!isRecord(record.value)) {
+    throw new RecordError(`Cannot read field ${name.value} of a value that is not a record: ${record.value}`);
+  }
+  if (!Object.prototype.hasOwnProperty.call(record.value, name.value)) {
+    throw new RecordError("Unknown field: " + name.value);
+  }
+  return new Value(dag, record.value[name.value]);
+};
+
+/**
+ * Lifts a comparison of raw values to one comparing Values, with b converted
+ * to the units of a.  Numbers of the numeric backend other than JS numbers
+ * are compared by comparing the result of NumericBackend.compare with 0.
+ */
+function comparison(compare: (a: any, b: any) => boolean): FuncType {
+  return broadcast((dag: DAG, args: Value[]): Value => {
+    const [a, b] = [args[0].value, inUnits(dag, args[1], args[0].units)];
+    const num = dag.numeric;
+    if ((typeof a !== "number" || typeof b !== "number") && num.isNumber(a) && num.isNumber(b)) {
+      return dag.newBool(compare(num.compare(a, b), 0));
+    }
+    return dag.newBool(compare(a, b));
+  });
+}
+
+export const Equal = comparison((a, b) => a === b);
+export const NotEqual = comparison((a, b) => a !== b);
+export const Less = comparison((a, b) => a < b);
+export const LessOrEqual = comparison((a, b) => a <= b);
+export const Greater = comparison((a, b) => a > b);
+export const GreaterOrEqual = comparison((a, b) => a >= b);
+
+/**
+ * Returns !args[0]
+ */
+export const Not = broadcast((dag: DAG, args: Value[]): Value => {
+  return dag.newBool(!truthy(args[0]));
+});
+
+/**
+ * Values are false if they are false, null, 0 (of any numeric backend), ""
+ * or an empty array.
+ */
+function truthy(v: Value): boolean {
+  if (Array.isArray(v.value)) return v.value.length > 0;
+  if (typeof v.value === "object" && v.value !== null && v.dag.numeric.isNumber(v.value)) {
+    return !v.dag.numeric.isZero(v.value);
+  }
+  return !!v.value;
+}
+
+/**
+ * Returns args[1] if args[0] is true, else args[2] (or null).  Only the
+ * branch taken is evaluated.
+ */
+export const If: LazyFuncType = (dag: DAG, args: Expr[], value: (index: number) => Value): Value => {
+  if (truthy(value(0))) return value(1);
+  return args.length > 2 ? value(2) : dag.NULL;
+};
+
+/**
+ * Returns the result following the first case equal to args[0], evaluating
+ * cases in order and only the result returned.  An unpaired last argument
+ * is the default.
+ */
+export const Switch: LazyFuncType = (dag: DAG, args: Expr[], value: (index: number) => Value): Value => {
+  const key = value(0);
+  for (let i = 1; i + 1 < args.length; i += 2) {
+    const c = value(i);
+    const matches = key.units != null && c.units != null ? key.value === inUnits(dag, c, key.units) : key.equals(c);
+    if (matches) return value(i + 1);
+  }
+  return args.length % 2 == 0 ? value(args.length - 1) : dag.NULL;
+};
+
+/**
+ * Returns the first false argument or the last one, short circuiting as in JS.
+ */
+export const And: LazyFuncType = (dag: DAG, args: Expr[], value: (index: number) => Value): Value => {
+  for (let i = 0; i < args.length - 1; i++) {
+    const v = value(i);
+    if (!truthy(v)) return v;
+  }
+  return value(args.length - 1);
+};
+
+/**
+ * Returns the first true argument or the last one, short circuiting as in JS.
+ */
+export const Or: LazyFuncType = (dag: DAG, args: Expr[], value: (index: number) => Value): Value => {
+  for (let i = 0; i < args.length - 1; i++) {
+    const v = value(i);
+    if (truthy(v)) return v;
+  }
+  return value(args.length - 1);
+};
+
+/**
+ * Returns the first argument that is not null (or null).
+ */
+export const Coalesce: LazyFuncType = (dag: DAG, args: Expr[], value: (index: number) => Value): Value => {
+  for (let i = 0; i < args.length; i++) {
+    const v = value(i);
+    if (v.value !== null) return v;
+  }
+  return dag.NULL;
+};
+
+/**
+ * Returns args[0] unless it is an error value, else args[1].
+ */
+export const IfError: LazyFuncType = (dag: DAG, args: Expr[], value: (index: number) => Value): Value => {
+  const v = value(0);
+  return v.isError ? value(1) : v;
+};
+
+/**
+ * Returns whether args[0] is an error value.
+ */
+export const IsError: LazyFuncType = (dag: DAG, args: Expr[], value: (index: number) => Value): Value => {
+  return dag.newBool(value(0).isError);
+};
+
+/**
+ * Returns the raw values of args converted to the units of the first.
+ */
+function sameUnits(dag: DAG, funcname: string, args: Value[]): any[] {
+  return args.map((v) => {
+    if (v.isError || typeof v.value === "boolean" || !dag.numeric.isNumber(v.value)) {
+      throw new ValueTypeError(`${funcname} expects numbers, found ${v}`);
+    }
+    return inUnits(dag, v, args[0].units);
+  });
+}
+
+/**
+ * Returns a value only known to be between args[0] and args[1].
+ */
+export const MakeInterval = (dag: DAG, args: Value[]): Value => {
+  const [lo, hi] = sameUnits(dag, "interval", args);
+  if (dag.numeric.compare(lo, hi) > 0) throw new ValueTypeError(`Empty interval: ${lo} to ${hi}`);
+  return new Value(dag, new Interval(lo, hi), args[0].units);
+};
+
+/**
+ * Returns a Value holding a distribution with parameters given by args.
+ */
+function distribution(funcname: string, create: (params: number[]) => Distribution): FuncType {
+  return (dag: DAG, args: Value[]): Value => {
+    const params = sameUnits(dag, funcname, args).map((x) => dag.numeric.toNumber(x));
+    return new Value(dag, create(params), args[0].units);
+  };
+}
+
+export const MakeUniform = distribution("uniform", ([lo, hi]) => {
+  if (lo > hi) throw new ValueTypeError(`Empty range: ${lo} to ${hi}`);
+  return new Uniform(lo, hi);
+});
+
+export const MakeNormal = distribution("normal", ([mean, stddev]) => {
+  if (stddev < 0) throw new ValueTypeError("Negative standard deviation: " + stddev);
+  return new Normal(mean, stddev);
+});
+
+export const MakeTriangular = distribution("triangular", ([lo, mode, hi]) => {
+  if (lo > mode || mode > hi) throw new ValueTypeError(`Mode ${mode} not between ${lo} and ${hi}`);
+  return new Triangular(lo, mode, hi);
+});
+
+/**
+ * d(if(c, a, b)) = if(c, da, db) as the condition is piecewise constant.
+ */
+export const IfDerivative: DerivativeRule = (call: FuncCall, dargs: Expr[]): Expr => {
+  const [then, otherwise] = [dargs[1], dargs[2] ?? call.dag.ZERO];
+  if (isZero(then) && isZero(otherwise)) return call.dag.ZERO;
+  return call.dag.newFunc("if", [call.args[0], then, otherwise]);
+};
+
+/**
+ * d(a + b + ...) = da + db + ...
+ */
+export const PlusDerivative: DerivativeRule = (call: FuncCall, dargs: Expr[]): Expr => {
+  return sum(call.dag, dargs);
+};
+
+/**
+ * d(a - b - ...) = da - db - ...
+ */
+export const MinusDerivative: DerivativeRule = (call: FuncCall, dargs: Expr[]): Expr => {
+  return difference(call.dag, dargs[0], dargs.slice(1));
+};
+
+/**
+ * Product rule: d(a * b * ...) = da * b * ... + a * db * ... + ...
+ */
+export const MultDerivative: DerivativeRule = (call: FuncCall, dargs: Expr[]): Expr => {
+  const terms = dargs.map((darg, i) =>
+    product(
+      call.dag,
+      call.args.map((a, j) => (i == j ? darg : a)),
+    ),
+  );
+  return sum(call.dag, terms);
+};
+
+/**
+ * Quotient rule applied from left to right: d(u / b) = (du * b - u * db) / b ** 2
+ */
+export const DivDerivative: DerivativeRule = (call: FuncCall, dargs: Expr[]): Expr => {
+  const dag = call.dag;
+  let u = call.args[0];
+  let du = dargs[0];
+  for (let i = 1; i < call.args.length; i++) {
+    const b = call.args[i];
+    const db = dargs[i];
+    if (isZero(db)) {
+      du = quotient(dag, du, b);
+    } else {
+      const num = difference(dag, product(dag, [du, b]), [product(dag, [u, db])]);
+      du = quotient(dag, num, power(dag, b, dag.newNum(2)));
+    }
+    u = dag.newFunc("/", [u, b]);
+  }
+  return du;
+};
+
+/**
+ * d(a ** b) = b * a ** (b - 1) * da when b is constant and
+ * a ** b * (db * log(a) + b * da / a) otherwise.
+ */
+export const PowDerivative: DerivativeRule = (call: FuncCall, dargs: Expr[]): Expr => {
+  return powDerivative(call, call.args[0], call.args[1], dargs[0], dargs[1]);
+};
+
+/**
+ * root(a, n) = a ** (1 / n) so differentiated as a power with d(1 / n) = -dn / n ** 2
+ */
+export const RootDerivative: DerivativeRule = (call: FuncCall, dargs: Expr[]): Expr => {
+  const dag = call.dag;
+  const [a, n] = call.args;
+  const exponent = n.type == ExprType.VALUE ? dag.newNum(1 / (n as Value).value) : quotient(dag, dag.ONE, n);
+  const dexponent = isZero(dargs[1])
+    ? dag.ZERO
+    : product(dag, [dag.newNum(-1), quotient(dag, dargs[1], power(dag, n, dag.newNum(2)))]);
+  return powDerivative(call, a, exponent, dargs[0], dexponent);
+};
+
+function powDerivative(call: FuncCall, a: Expr, b: Expr, da: Expr, db: Expr): Expr {
+  const dag = call.dag;
+  if (isZero(db)) {
+    const bMinusOne = b.type == ExprType.VALUE ? dag.newNum((b as Value).value - 1) : difference(dag, b, [dag.ONE]);
+    return product(dag, [b, power(dag, a, bMinusOne), da]);
+  }
+  const inner = sum(dag, [product(dag, [db, dag.newFunc("log", [a])]), quotient(dag, product(dag, [b, da]), a)]);
+  return product(dag, [call, inner]);
+}
+
+/**
+ * d(log_base(a)) = da / (a * ln(base)) where factor is ln(base)
+ */
+export function LogDerivative(factor: number): DerivativeRule {
+  return (call: FuncCall, dargs: Expr[]): Expr => {
+    const dag = call.dag;
+    const den = factor == 1 ? call.args[0] : product(dag, [call.args[0], dag.newNum(factor)]);
+    return quotient(dag, dargs[0], den);
+  };
+}
+
+/**
+ * Rounding functions are flat (almost) everywhere.
+ */
+export const StepDerivative: DerivativeRule = (call: FuncCall): Expr => {
+  return call.dag.ZERO;
 };
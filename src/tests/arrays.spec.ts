@@ -0,0 +1,106 @@
+import { ArrayError, DAG, Expr, ValueType } from "../core";
+import * as stdlib from "../stdlib";
+import { TypeChecker } from "../typecheck";
+
+describe("Array Tests", () => {
+  const newDAG = () => stdlib.PopulateDAG(new DAG());
+
+  test("Element wise arithmetic", () => {
+    const d = newDAG();
+    const f = (name: string, ...args: Expr[]) => d.newFunc(name, args);
+    const xs = f("array", d.newNum(1), d.newNum(2), d.newNum(3));
+    const ys = f("array", d.newNum(10), d.newNum(20), d.newNum(30));
+    expect(f("+", xs, ys).latestValue.value).toEqual([11, 22, 33]);
+    expect(f("*", xs, d.newNum(2)).latestValue.value).toEqual([2, 4, 6]);
+    expect(f("-", d.newNum(10), xs).latestValue.value).toEqual([9, 8, 7]);
+    expect(f("**", xs, d.newNum(2)).latestValue.value).toEqual([1, 4, 9]);
+    expect(f("round", f("/", ys, d.newNum(3))).latestValue.value).toEqual([3, 7, 10]);
+    expect(f("+", f("array", xs, ys), d.newNum(1)).latestValue.value).toEqual([
+      [2, 3, 4],
+      [11, 21, 31],
+    ]);
+    expect(() => f("+", xs, f("array", d.newNum(1))).latestValue).toThrowError(
+      new ArrayError("Arrays of different lengths: 3 and 1"),
+    );
+  });
+
+  test("Arrays with units", () => {
+    const d = newDAG();
+    const km = d.parseUnits("km");
+    const m = d.parseUnits("m");
+    const xs = d.newFunc("array", [d.newNum(1, km), d.newNum(500, m)]);
+    const sum = d.newFunc("+", [xs, d.newNum(1, km)]).latestValue;
+    expect(sum.value).toEqual([2, 1.5]);
+    expect(sum.units).toBe(km);
+    expect(d.newFunc("convert", [xs, d.newStr("m")]).latestValue.value).toEqual([1000, 500]);
+  });
+
+  test("Indexing", () => {
+    const d = newDAG();
+    d.newVar("xs", d.newFunc("array", [d.newNum(5), d.newNum(6), d.newNum(7)]));
+    d.newVar("i", d.newNum(1));
+    d.newVar("x", d.newFunc("index", [d.newVarRef("xs"), d.newVarRef("i")]));
+    expect(d.getVar("x")?.latestValue.value).toBe(6);
+    d.setValue("i", d.newNum(2));
+    expect(d.getVar("x")?.latestValue.value).toBe(7);
+    // Evaluated vars are recomputed as soon as their inputs change
+    d.setValue("i", d.newNum(3));
+    expect(String(d.getVar("x")?.lastValue)).toBe("#TYPE: Index 3 out of range for an array of length 3");
+  });
+
+  test("Aggregates", () => {
+    const d = newDAG();
+    const xs = d.newFunc("array", [d.newNum(4), d.newNum(1), d.newNum(7)]);
+    const agg = (name: string, ...args: Expr[]) => d.newFunc(name, args).latestValue.value;
+    expect(agg("sum", xs)).toBe(12);
+    expect(agg("avg", xs)).toBe(4);
+    expect(agg("min", xs)).toBe(1);
+    expect(agg("max", xs, d.newNum(10))).toBe(10);
+    expect(agg("count", xs)).toBe(3);
+    const durations = d.newFunc("array", [d.newNum(1, d.parseUnits("h")), d.newNum(30, d.parseUnits("min"))]);
+    const total = d.newFunc("sum", [durations]).latestValue;
+    expect([total.value, total.units?.toString()]).toEqual([1.5, "h"]);
+    expect(() => agg("avg", d.newFunc("array", []))).toThrowError("Cannot average an empty array");
+  });
+
+  test("Map and filter with lambdas", () => {
+    const d = newDAG();
+    const x = d.newVarRef("x");
+    d.newVar("rate", d.newNum(2));
+    d.newVar("xs", d.newFunc("array", [d.newNum(1), d.newNum(2), d.newNum(3)]));
+    d.newVar(
+      "scaled",
+      d.newFunc("map", [d.newVarRef("xs"), d.newLambda(["x"], d.newFunc("*", [x, d.newVarRef("rate")]))]),
+    );
+    d.newVar("odd", d.newFunc("filter", [d.newVarRef("xs"), d.newLambda(["x"], d.newFunc("-", [x, d.newNum(2)]))]));
+    expect(d.getVar("scaled")?.latestValue.value).toEqual([2, 4, 6]);
+    expect(d.getVar("odd")?.latestValue.value).toEqual([1, 3]);
+
+    // Lambdas depend on the variables they refer to but not their parameters
+    expect(d.varsReferencedBy(d.getVar("scaled")!.value)).toEqual(new Set(["xs", "rate"]));
+    d.newVar("x", d.newNum(100));
+    expect(d.affectedVars("x")).toEqual(["x"]);
+    d.setValue("rate", d.newNum(3));
+    expect(d.getVar("scaled")?.latestValue.value).toEqual([3, 6, 9]);
+    d.setValue("xs", d.newFunc("array", [d.newNum(5)]));
+    expect(d.getVar("scaled")?.latestValue.value).toEqual([15]);
+  });
+
+  test("Arrays round trip through JSON and type check", () => {
+    const d = newDAG();
+    d.newVar("xs", d.newFunc("array", [d.newNum(1), d.newNum(2)]));
+    d.newVar(
+      "ys",
+      d.newFunc("map", [d.newVarRef("xs"), d.newLambda(["x"], d.newFunc("+", [d.newVarRef("x"), d.newNum(1)]))]),
+    );
+    d.newVar("y", d.newFunc("index", [d.newFunc("*", [d.newVarRef("ys"), d.newNum(2)]), d.newNum(0)]));
+    const loaded = DAG.fromJSON(JSON.parse(JSON.stringify(d.toJSON())), newDAG());
+    expect(loaded.toJSON()).toEqual(d.toJSON());
+    expect(loaded.getVar("y")?.latestValue.value).toBe(4);
+
+    const checker = new TypeChecker(d);
+    expect(checker.check()).toEqual([]);
+    expect(checker.typeOfVar("ys")).toBe(ValueType.ARRAY);
+    expect(checker.typeOfVar("y")).toBe(ValueType.ANY);
+  });
+});
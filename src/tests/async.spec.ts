@@ -0,0 +1,166 @@
+import { AsyncFuncType, DAG, ErrorCode, Value } from "../core";
+import * as stdlib from "../stdlib";
+
+describe("Async Tests", () => {
+  /**
+   * Stand in for a remote lookup of exchange rates settled by the test.
+   */
+  class Rates {
+    requests: {
+      currency: string;
+      signal: AbortSignal;
+      resolve: (rate: number) => void;
+      reject: (err: Error) => void;
+    }[] = [];
+    inFlight = 0;
+    maxInFlight = 0;
+
+    readonly lookup: AsyncFuncType = (dag: DAG, args: Value[], signal: AbortSignal) => {
+      this.inFlight++;
+      this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+      return new Promise<Value>((resolve, reject) => {
+        const done = () => this.inFlight--;
+        this.requests.push({
+          currency: args[0].value,
+          signal: signal,
+          resolve: (rate) => (done(), resolve(dag.newNum(rate))),
+          reject: (err) => (done(), reject(err)),
+        });
+      });
+    };
+
+    /**
+     * The latest request for a currency.
+     */
+    request(currency: string) {
+      return [...this.requests].reverse().find((r) => r.currency == currency)!;
+    }
+
+    /**
+     * Settles requests for the given rates (on later ticks).
+     */
+    settle(rates: { [currency: string]: number }): void {
+      setTimeout(() => {
+        for (const [currency, rate] of Object.entries(rates)) this.request(currency).resolve(rate);
+      }, 0);
+    }
+  }
+
+  const newDAG = (rates: Rates) => {
+    const d = stdlib.PopulateDAG(new DAG());
+    d.regAsyncFunc("rate", rates.lookup, { paramNames: ["currency"], doc: "Exchange rate to USD" });
+    return d;
+  };
+
+  test("Async functions are evaluated concurrently", async () => {
+    const rates = new Rates();
+    const d = newDAG(rates);
+    d.newVar("eur", d.newFunc("rate", [d.newStr("EUR")]));
+    d.newVar("gbp", d.newFunc("rate", [d.newStr("GBP")]));
+    d.newVar("eurAgain", d.newFunc("*", [d.newFunc("rate", [d.newStr("EUR")]), d.ONE]));
+    d.newVar("total", d.newFunc("+", [d.newVarRef("eur"), d.newVarRef("gbp"), d.newVarRef("eurAgain")]));
+    expect(d.getVar("total")?.latestValue.isPending).toBe(true);
+    expect(String(d.getVar("eur")?.latestValue)).toBe("#PENDING");
+
+    rates.settle({ EUR: 1.1, GBP: 1.3 });
+    const { total, eur } = await d.evaluate(["total", "eur"]);
+    expect(total.value).toBeCloseTo(3.5);
+    expect(eur.value).toBe(1.1);
+    // Calls with the same arguments are shared
+    expect(rates.requests.map((r) => r.currency)).toEqual(["EUR", "GBP"]);
+    expect(rates.maxInFlight).toBe(2);
+
+    // Settled results are reused until refreshed
+    d.newVar("eur2", d.newFunc("rate", [d.newStr("EUR")]));
+    expect(d.getVar("eur2")?.latestValue.value).toBe(1.1);
+    d.refreshAsync("rate");
+    expect(d.getVar("eur2")?.latestValue.isPending).toBe(true);
+    expect(rates.requests.length).toBe(4);
+    rates.settle({ EUR: 1.2, GBP: 1.3 });
+    expect((await d.evaluate(["total"])).total.value).toBeCloseTo(3.7);
+  });
+
+  test("Dependent calls wait for their inputs", async () => {
+    const rates = new Rates();
+    const d = newDAG(rates);
+    d.newVar("base", d.newFunc("rate", [d.newStr("BASE")]));
+    // The currency itself is looked up
+    d.regAsyncFunc("currencyOf", async (dag, args) => dag.newStr(args[0].value == "FR" ? "EUR" : "USD"));
+    d.newVar("local", d.newFunc("rate", [d.newFunc("currencyOf", [d.newStr("FR")])]));
+    d.newVar("ratio", d.newFunc("/", [d.newVarRef("local"), d.newVarRef("base")]));
+
+    const result = d.evaluate(["ratio"]);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(rates.requests.map((r) => r.currency)).toEqual(["BASE", "EUR"]);
+    rates.settle({ BASE: 2, EUR: 1 });
+    expect((await result).ratio.value).toBe(0.5);
+  });
+
+  test("Subscribers see pending values", async () => {
+    const rates = new Rates();
+    const d = newDAG(rates);
+    d.newVar("amount", d.newNum(100));
+    d.newVar("currency", d.newStr("EUR"));
+    d.newVar("usd", d.newFunc("*", [d.newVarRef("amount"), d.newFunc("rate", [d.newVarRef("currency")])]));
+    const changes: string[] = [];
+    d.onChange("usd", (v, oldValue, newValue) => changes.push(String(newValue)));
+    d.getVar("usd")?.latestValue;
+
+    rates.settle({ EUR: 1.1 });
+    await d.evaluate(["usd"]);
+    expect(changes).toEqual(["110.00000000000001"]);
+    d.setValue("amount", d.newNum(10));
+    d.setValue("currency", d.newStr("GBP"));
+    rates.settle({ GBP: 1.5 });
+    await d.evaluate(["usd"]);
+    expect(changes).toEqual(["110.00000000000001", "11", "#PENDING", "15"]);
+  });
+
+  test("Calls are cancelled when inputs change", async () => {
+    const rates = new Rates();
+    const d = newDAG(rates);
+    d.newVar("currency", d.newStr("EUR"));
+    d.newVar("fx", d.newFunc("rate", [d.newVarRef("currency")]));
+    expect(d.getVar("fx")?.latestValue.isPending).toBe(true);
+    const eur = rates.request("EUR");
+
+    d.setValue("currency", d.newStr("GBP"));
+    expect(eur.signal.aborted).toBe(true);
+    // Late results of cancelled calls are ignored
+    eur.resolve(1.1);
+    rates.settle({ GBP: 1.3 });
+    expect((await d.evaluate(["fx"])).fx.value).toBe(1.3);
+
+    // Failures become error values
+    d.setValue("currency", d.newStr("XXX"));
+    setTimeout(() => rates.request("XXX").reject(new Error("Unknown currency: XXX")), 0);
+    const fx = (await d.evaluate(["fx"])).fx;
+    expect(fx.value.code).toBe(ErrorCode.NA);
+    expect(fx.value.message).toBe("Unknown currency: XXX");
+    expect(fx.value.origin).toBe("fx");
+  });
+
+  test("Failures making or settling calls are contained", async () => {
+    const rates = new Rates();
+    const d = newDAG(rates);
+    d.regAsyncFunc("broken", () => {
+      throw new Error("Not connected");
+    });
+    d.newVar("x", d.newFunc("broken", []));
+    const x = (await d.evaluate(["x"])).x;
+    expect(x.value.code).toBe(ErrorCode.NA);
+    expect(x.value.message).toBe("Not connected");
+
+    // Errors updating variables once a call settles are reported
+    expect(d.onAsyncError).toBeNull();
+    const errors: unknown[] = [];
+    d.onAsyncError = (err) => errors.push(err);
+    d.newVar("fx", d.newFunc("rate", [d.newStr("EUR")]));
+    d.onChange("fx", () => {
+      throw new Error("Listener failed");
+    });
+    rates.settle({ EUR: 1.1 });
+    expect((await d.evaluate(["fx"])).fx.value).toBe(1.1);
+    expect(errors).toEqual([new Error("Listener failed")]);
+  });
+});
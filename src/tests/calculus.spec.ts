@@ -0,0 +1,87 @@
+import { DAG, Expr } from "../core";
+import * as stdlib from "../stdlib";
+import { derivative, DerivativeError } from "../calculus";
+
+function numericDerivative(d: DAG, expr: Expr, varname: string): number {
+  const x = d.getVar(varname)!.latestValue.value;
+  const h = 1e-6;
+  d.setValue(varname, d.newNum(x + h));
+  const f1 = expr.latestValue.value;
+  d.setValue(varname, d.newNum(x - h));
+  const f2 = expr.latestValue.value;
+  d.setValue(varname, d.newNum(x));
+  return (f1 - f2) / (2 * h);
+}
+
+describe("Derivative Tests", () => {
+  const f = (d: DAG, name: string, ...args: Expr[]) => d.newFunc(name, args);
+
+  test("Differentiate stdlib functions", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    const x = d.newVarRef("x");
+    const y = d.newVarRef("y");
+    d.newVar("x", d.newNum(1.3));
+    d.newVar("y", d.newNum(2.5));
+    const exprs = [
+      f(d, "+", x, y, d.newNum(3)),
+      f(d, "-", x, f(d, "*", x, x), y),
+      f(d, "*", x, y, x),
+      f(d, "/", d.newNum(1), x, f(d, "+", x, y)),
+      f(d, "**", x, d.newNum(3)),
+      f(d, "**", y, x),
+      f(d, "**", x, x),
+      f(d, "root", x, d.newNum(3)),
+      f(d, "root", y, x),
+      f(d, "log", f(d, "*", x, x)),
+      f(d, "log10", x),
+      f(d, "log2", x),
+      f(d, "round", x),
+    ];
+    for (const expr of exprs) {
+      const dexpr = derivative(expr, "x");
+      expect(dexpr.latestValue.value).toBeCloseTo(numericDerivative(d, expr, "x"), 4);
+    }
+  });
+
+  test("Chain rule through vars", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    d.newVar("x", d.newNum(2));
+    d.newVar("y", f(d, "*", d.newVarRef("x"), d.newVarRef("x")));
+    d.newVar("z", f(d, "+", d.newVarRef("y"), d.newVarRef("w")));
+    d.newVar("w", d.newNum(7));
+    const dz = derivative(d.newVarRef("z"), "x");
+    expect(dz.debugValue()).toEqual({ func: "+", args: ["Var(x)", "Var(x)"] });
+    expect(dz.latestValue.value).toBe(4);
+    expect(derivative(d.newVarRef("w"), "x")).toBe(d.ZERO);
+    expect(derivative(d.newVarRef("x"), "x")).toBe(d.ONE);
+  });
+
+  test("Chain rule through scopes", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    d.newVar("rate", d.newNum(100));
+    const tax = d.newScope("tax");
+    tax.newVar("rate", tax.newNum(0.2));
+    tax.newVar("total", f(tax, "*", tax.newVarRef("rate"), tax.newNum(10)));
+    d.newVar("out", f(d, "+", d.newVarRef("tax.total"), d.newVarRef("rate")));
+    const out = d.newVarRef("out");
+    expect(derivative(out, "tax.rate").latestValue.value).toBe(10);
+    expect(derivative(out, "rate").latestValue.value).toBe(1);
+    expect(derivative(tax.newVarRef("total"), "rate").latestValue.value).toBe(10);
+  });
+
+  test("Custom derivative rules", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    d.regFunc("sin", (dag, args) => dag.newNum(Math.sin(args[0].value)), {
+      paramNames: ["x"],
+      derivative: (call, dargs) => f(d, "*", f(d, "cos", call.args[0]), dargs[0]),
+    });
+    d.regFunc("cos", (dag, args) => dag.newNum(Math.cos(args[0].value)), { paramNames: ["x"] });
+    d.regFunc("nodiff", (dag, args) => args[0], { paramNames: ["x"] });
+    d.newVar("x", d.newNum(0));
+    const dexpr = derivative(f(d, "sin", f(d, "*", d.newNum(2), d.newVarRef("x"))), "x");
+    expect(dexpr.latestValue.value).toBe(2);
+    expect(() => derivative(f(d, "nodiff", d.newVarRef("x")), "x")).toThrowError(DerivativeError);
+    // Functions not depending on the var do not need a rule
+    expect(derivative(f(d, "nodiff", d.newNum(1)), "x")).toBe(d.ZERO);
+  });
+});
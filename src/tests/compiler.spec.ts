@@ -0,0 +1,87 @@
+import { DAG, FuncType, Value } from "../core";
+import { CompileError } from "../compiler";
+import { DecimalBackend } from "../numeric";
+import * as stdlib from "../stdlib";
+
+describe("Compiler Tests", () => {
+  const newDAG = () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    const ref = (name: string) => d.newVarRef(name);
+    d.newVar("price", d.newNum(10));
+    d.newVar("cost", d.newNum(7));
+    d.newVar("profit", d.newFunc("-", [ref("price"), ref("cost")]));
+    d.newVar("margin", d.newFunc("/", [ref("profit"), ref("price")]));
+    d.newVar("scaled", d.newFunc("**", [d.newFunc("+", [ref("margin"), d.newNum(-1)]), d.newNum(2)]));
+    d.newVar("rounded", d.newFunc("round", [d.newFunc("*", [ref("profit"), d.newNum(1.5)])]));
+    return d;
+  };
+
+  test("Compiled functions agree with the interpreter", () => {
+    const d = newDAG();
+    const outputs = ["margin", "scaled", "rounded"];
+    const f = d.compile(outputs, ["price", "cost"]);
+    for (const [price, cost] of [
+      [10, 7],
+      [3, 5],
+      [100, 0.5],
+    ]) {
+      d.setValue("price", d.newNum(price));
+      d.setValue("cost", d.newNum(cost));
+      expect(f(price, cost)).toEqual(outputs.map((name) => d.getVar(name)?.latestValue.value));
+    }
+    // Vars that are not inputs are compiled with their current values
+    expect(d.compile(["margin"], ["price"])(20)).toEqual([0.975]);
+  });
+
+  test("References are resolved in the scopes they are made in", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    d.newVar("rate", d.newNum(100));
+    const tax = d.newScope("tax");
+    tax.newVar("rate", tax.newNum(0.2));
+    tax.newVar("total", tax.newFunc("*", [tax.newVarRef("rate"), tax.newNum(10)]));
+    d.newVar("out", d.newFunc("+", [d.newVarRef("tax.total"), d.newVarRef("rate")]));
+    expect(d.getVar("out")?.latestValue.value).toBe(102);
+    expect(d.compile(["out"], [])()).toEqual([102]);
+    expect(d.compile(["out"], ["tax.rate"])(0.5)).toEqual([105]);
+    expect(d.compile(["out"], ["rate"])(1)).toEqual([3]);
+  });
+
+  test("Calls are shared and registered functions called directly", () => {
+    const d = newDAG();
+    let calls = 0;
+    const twice: FuncType = (dag, args) => {
+      calls++;
+      return new Value(dag, args[0].value * 2);
+    };
+    d.regFunc("twice", twice, { paramNames: ["value"] });
+    d.newVar("t", d.newFunc("twice", [d.newVarRef("profit")]));
+    d.newVar("u", d.newFunc("+", [d.newVarRef("t"), d.newVarRef("t")]));
+    const f = d.compile(["t", "u"], ["price"]);
+    expect(f(12)).toEqual([10, 20]);
+    expect(calls).toBe(1);
+    // Stdlib operators are inlined
+    expect(f.source).toContain("$in0 - ");
+    expect(f.source).toContain("$funcs[0]($dag, ");
+  });
+
+  test("Errors", () => {
+    const d = newDAG();
+    d.newVar("bad", d.newFunc("missing", []));
+    expect(() => d.compile(["bad"], [])).toThrowError(new CompileError("Unknown function: missing"));
+    d.newVar("dangling", d.newFunc("+", [d.newVarRef("nowhere"), d.ONE]));
+    expect(d.getVar("dangling")?.latestValue.isError).toBe(true);
+    expect(() => d.compile(["dangling"], [])).toThrowError(new CompileError("Unknown variable: nowhere"));
+    expect(d.compile(["dangling"], ["nowhere"])(2)).toEqual([3]);
+    d.newVar("distance", d.newNum(3, d.parseUnits("km")));
+    d.newVar("speed", d.newFunc("/", [d.newVarRef("distance"), d.newNum(2, d.parseUnits("h"))]));
+    expect(() => d.compile(["speed"], [])).toThrowError("Cannot compile values with units: 3 (km)");
+    expect(() => d.compile(["speed"], ["distance"])).toThrowError("Cannot compile input with units: distance (km)");
+
+    const exact = stdlib.PopulateDAG(new DAG());
+    exact.numeric = new DecimalBackend();
+    exact.newVar("total", exact.newFunc("+", [exact.parseNum("0.1"), exact.parseNum("0.2")]));
+    expect(() => exact.compile(["total"], [])).toThrowError(
+      new CompileError("Cannot compile DAGs using the decimal numeric backend"),
+    );
+  });
+});
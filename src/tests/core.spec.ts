@@ -1,4 +1,4 @@
-import { DAG, Units } from "../core";
+import { ArityError, CircularReferenceError, DAG, ErrorCode, FuncType, UnitsError } from "../core";
 import * as stdlib from "../stdlib";
 
 describe("DAG Tests", () => {
@@ -24,4 +24,150 @@ describe("DAG Tests", () => {
     const vz = d.newVar("z", d.newFunc("+", [d.newVarRef("x"), d.newVarRef("y")]));
     expect(() => d.setValue("x", d.newVarRef("z"))).toThrowError("Circular reference for variable: x");
   });
+
+  test("Changes propagate to dependents", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    d.newVar("x", d.newNum(3));
+    d.newVar("y", d.newNum(5));
+    const vz = d.newVar("z", d.newFunc("+", [d.newVarRef("x"), d.newVarRef("y")]));
+    const vw = d.newVar("w", d.newFunc("*", [d.newVarRef("z"), d.newNum(2)]));
+    expect(vz.latestValue.value).toBe(8);
+    expect(vw.latestValue.value).toBe(16);
+    d.setValue("x", d.newNum(10));
+    expect(vz.latestValue.value).toBe(15);
+    expect(vw.latestValue.value).toBe(30);
+    expect(d.affectedVars("x")).toEqual(["x", "z", "w"]);
+    expect(d.affectedVars("w")).toEqual(["w"]);
+  });
+
+  test("Change listeners", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    d.newVar("x", d.newNum(3));
+    d.newVar("y", d.newNum(5));
+    d.newVar("z", d.newFunc("+", [d.newVarRef("x"), d.newVarRef("y")]));
+    d.newVar("unrelated", d.newFunc("*", [d.newVarRef("y"), d.newNum(2)]));
+    const changes: any[] = [];
+    const allChanges: string[] = [];
+    const unsub = d.onChange("z", (v, oldValue, newValue) => changes.push([v.name, oldValue.value, newValue.value]));
+    d.onAnyChange((v) => allChanges.push(v.name));
+    d.setValue("x", d.newNum(10));
+    expect(changes).toEqual([["z", 8, 15]]);
+    expect(allChanges).toEqual(["x", "z"]);
+
+    // No change in value - no notifications for z
+    d.setValue("x", d.newNum(10));
+    expect(changes.length).toBe(1);
+
+    unsub();
+    d.setValue("x", d.newNum(1));
+    expect(changes.length).toBe(1);
+    expect(allChanges).toEqual(["x", "z", "x", "z"]);
+  });
+
+  test("Only nodes with changed inputs are re-evaluated", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    const calls: string[] = [];
+    const counted = (name: string, f: FuncType): FuncType => {
+      return (dag, args) => {
+        calls.push(name);
+        return f(dag, args);
+      };
+    };
+    d.regFunc("plus", counted("plus", stdlib.Plus));
+    d.regFunc("round", counted("round", stdlib.Round));
+    d.regFunc("mult", counted("mult", stdlib.Mult));
+    d.newVar("x", d.newNum(3.2));
+    d.newVar("y", d.newNum(5));
+    d.newVar("rx", d.newFunc("round", [d.newVarRef("x")]));
+    const vz = d.newVar("z", d.newFunc("plus", [d.newVarRef("rx"), d.newVarRef("y")]));
+    const vw = d.newVar("w", d.newFunc("mult", [d.newVarRef("y"), d.newNum(2)]));
+    expect(vz.latestValue.value).toBe(8);
+    expect(vw.latestValue.value).toBe(10);
+    expect(calls).toEqual(["round", "plus", "mult"]);
+
+    // w does not depend on x so is not touched
+    calls.length = 0;
+    d.setValue("x", d.newNum(4.4));
+    expect(vz.latestValue.value).toBe(9);
+    expect(vw.latestValue.value).toBe(10);
+    expect(calls).toEqual(["round", "plus"]);
+
+    // round(x) is unchanged so z is cut off
+    calls.length = 0;
+    const version = vz.version;
+    d.setValue("x", d.newNum(4.1));
+    expect(vz.latestValue.value).toBe(9);
+    expect(calls).toEqual(["round"]);
+    expect(vz.version).toBe(version);
+  });
+
+  test("Units arithmetic and conversions", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    const m = d.parseUnits("m");
+    const s = d.parseUnits("s");
+    expect(d.parseUnits("m*m/s^2")).toBe(d.newUnits(["m", "m"], ["s", "s"]));
+    expect(d.parseUnits("m/m")).toBe(null);
+    expect(d.mulUnits(d.parseUnits("m/s"), s)).toBe(m);
+    expect(d.divUnits(m, s)?.toString()).toBe("m/s");
+    expect(d.powUnits(d.parseUnits("m^2"), 0.5)).toBe(m);
+
+    d.newVar("dist", d.newNum(3, d.parseUnits("km")));
+    d.newVar("time", d.newNum(30, d.parseUnits("min")));
+    const speed = d.newVar("speed", d.newFunc("/", [d.newVarRef("dist"), d.newVarRef("time")]));
+    expect(speed.latestValue.debugValue()).toEqual({ value: 0.1, units: "km/min" });
+    const converted = d.newVar("converted", d.newFunc("convert", [d.newVarRef("speed"), d.newStr("km/h")]));
+    expect(converted.latestValue.value).toBeCloseTo(6);
+
+    // adding compatible units converts to the units of the first argument
+    const total = d.newVar("total", d.newFunc("+", [d.newVarRef("dist"), d.newNum(500, m)]));
+    expect(total.latestValue.debugValue()).toEqual({ value: 3.5, units: "km" });
+
+    // adding incompatible units fails
+    const bad = d.newVar("bad", d.newFunc("+", [d.newVarRef("dist"), d.newVarRef("time")]));
+    expect(String(bad.latestValue)).toBe("#TYPE: Incompatible units: (min) and (km)");
+    expect(() => bad.value.latestValue).toThrowError("Incompatible units: (min) and (km)");
+    const bad2 = d.newVar("bad2", d.newFunc("+", [d.newVarRef("dist"), d.newNum(1)]));
+    expect(() => bad2.value.latestValue).toThrowError(UnitsError);
+    expect(bad2.latestValue.value.code).toBe(ErrorCode.TYPE);
+  });
+
+  test("Function signatures and arity", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    expect(() => d.newFunc("**", [d.newNum(2)])).toThrowError("** expects 2 argument(s) but found 1");
+    expect(() => d.newFunc("round", [d.newNum(2), d.newNum(3), d.newNum(4)])).toThrowError(ArityError);
+    expect(() => d.newFunc("+", [])).toThrowError("+ expects at least 1 argument(s) but found 0");
+    expect(d.newFunc("+", [d.newNum(1), d.newNum(2), d.newNum(3)]).latestValue.value).toBe(6);
+    d.regFunc("clamp", stdlib.Plus, { paramNames: ["value", "min", "max"], minArgs: 1 });
+    expect(d.arityOf("clamp")).toEqual([1, 3]);
+    expect(() => d.newFunc("clamp", [d.newNum(1), d.newNum(2), d.newNum(3), d.newNum(4)])).toThrowError(
+      "clamp expects between 1 and 3 argument(s) but found 4",
+    );
+    // unregistered functions are not validated
+    expect(d.newFunc("unknown", []).args).toEqual([]);
+
+    const funcs = d.listFuncs();
+    expect(funcs.map((f) => f.name)).toContain("round");
+    const round = funcs.find((f) => f.name == "round");
+    expect(round?.paramNames).toEqual(["value"]);
+    expect(round?.doc).toBe("Rounds value to the nearest integer");
+    expect(round?.pure).toBe(true);
+  });
+
+  test("Define vars together in dependency order", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    const vars = d.defineAll([
+      { name: "total", expr: d.newFunc("*", [d.newVarRef("price"), d.newVarRef("qty")]), desc: "", span: null },
+      { name: "price", expr: d.newNum(10), desc: "Unit price", span: null },
+      { name: "qty", expr: d.newNum(3), desc: "", span: null },
+    ]);
+    expect(vars.map((v) => v.name)).toEqual(["price", "qty", "total"]);
+    expect(d.getVar("price")?.desc).toBe("Unit price");
+    expect(d.getVar("total")?.latestValue.value).toBe(30);
+    expect(() =>
+      d.defineAll([
+        { name: "a", expr: d.newVarRef("b"), desc: "", span: null },
+        { name: "b", expr: d.newVarRef("a"), desc: "", span: null },
+      ]),
+    ).toThrowError(CircularReferenceError);
+  });
 });
@@ -0,0 +1,95 @@
+import { DAG, ErrorCode, ErrorInfo, Value, ValueType, ValueTypeError } from "../core";
+import * as stdlib from "../stdlib";
+
+describe("Error Value Tests", () => {
+  const newDAG = () => stdlib.PopulateDAG(new DAG());
+
+  test("Errors become values of the variables they occur in", () => {
+    const d = newDAG();
+    d.newVar("a", d.newNum(10));
+    d.newVar("b", d.ZERO);
+    d.newVar("ratio", d.newFunc("/", [d.newVarRef("a"), d.newVarRef("b")]));
+    d.newVar("scaled", d.newFunc("*", [d.newVarRef("ratio"), d.newNum(2)]));
+    d.newVar("other", d.newFunc("+", [d.newVarRef("a"), d.ONE]));
+    d.newVar("missing", d.newFunc("+", [d.newVarRef("nope"), d.ONE]));
+    d.newVar("unknown", d.newFunc("nofunc", [d.newVarRef("a")]));
+    d.newVar("xs", d.newArray([d.newNum(1), d.newNum(2)]));
+    d.newVar("typed", d.newFunc("index", [d.newVarRef("xs"), d.newNum(5)]));
+    d.defineFunc("forever", ["n"], d.newFunc("forever", [d.newVarRef("n")]));
+    d.newVar("cycle", d.newFunc("forever", [d.ONE]));
+
+    const error = (name: string) => d.getVar(name)?.latestValue.value as ErrorInfo;
+    expect(error("ratio")).toEqual(new ErrorInfo(ErrorCode.DIV0, "Division by zero", "ratio"));
+    // Errors keep the variable they came from
+    expect(error("scaled")).toEqual(new ErrorInfo(ErrorCode.DIV0, "Division by zero", "ratio"));
+    expect(d.getVar("other")?.latestValue.value).toBe(11);
+    expect(String(error("missing"))).toBe("#REF: Undefined variable: nope");
+    expect(String(error("unknown"))).toBe("#NAME: Unknown function: nofunc");
+    expect(error("typed").code).toBe(ErrorCode.TYPE);
+    expect(error("cycle").code).toBe(ErrorCode.CYCLE);
+    expect(d.getVar("ratio")?.latestValue.valueType).toBe(ValueType.ERROR);
+
+    // Fixing the cause fixes the dependents
+    d.setValue("b", d.newNum(4));
+    expect(d.getVar("scaled")?.latestValue.value).toBe(5);
+    d.newVar("nope", d.ONE);
+    expect(d.getVar("missing")?.latestValue.value).toBe(2);
+  });
+
+  test("Errors propagate through functions", () => {
+    const d = newDAG();
+    const div0 = d.newFunc("/", [d.ONE, d.ZERO]);
+    const value = (name: string, ...args: any[]) => String(d.newFunc(name, args).latestValue);
+    expect(value("+", d.ONE, div0)).toBe("#DIV/0: Division by zero");
+    expect(value("/", d.newArray([d.newNum(1), d.newNum(2)]), d.newArray([d.ONE, d.ZERO]))).toBe(
+      "#DIV/0: Division by zero",
+    );
+    expect(value("array", d.ONE, div0)).toBe("#DIV/0: Division by zero");
+    expect(value("if", div0, d.ONE, d.ZERO)).toBe("#DIV/0: Division by zero");
+    // Untaken branches do not matter
+    expect(value("if", d.TRUE, d.ONE, div0)).toBe("1");
+    expect(value("&&", d.FALSE, div0)).toBe("false");
+  });
+
+  test("Handling errors", () => {
+    const d = newDAG();
+    d.newVar("xs", d.newArray([d.newNum(1), d.newNum(2)]));
+    d.newVar("i", d.newNum(5));
+    const elem = d.newFunc("index", [d.newVarRef("xs"), d.newVarRef("i")]);
+    d.newVar("safe", d.newFunc("iferror", [elem, d.newNum(-1)]));
+    d.newVar("bad", d.newFunc("iserror", [elem]));
+    d.newVar("ratio", d.newFunc("iferror", [d.newFunc("/", [d.ONE, d.newVarRef("i")]), d.ZERO]));
+    expect(d.getVar("safe")?.latestValue.value).toBe(-1);
+    expect(d.getVar("bad")?.latestValue.value).toBe(true);
+    expect(d.getVar("ratio")?.latestValue.value).toBe(0.2);
+
+    d.setValue("i", d.ZERO);
+    expect(d.getVar("safe")?.latestValue.value).toBe(1);
+    expect(d.getVar("bad")?.latestValue.value).toBe(false);
+    expect(d.getVar("ratio")?.latestValue.value).toBe(0);
+
+    // Errors are values like any other for listeners
+    const listener = jest.fn();
+    d.newVar("inv", d.newFunc("/", [d.ONE, d.newVarRef("i")]));
+    d.onChange("inv", listener);
+    d.setValue("i", d.newNum(2));
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][1].isError).toBe(true);
+    expect(listener.mock.calls[0][2].value).toBe(0.5);
+  });
+
+  test("Only errors caused by the values evaluated become error values", () => {
+    const d = newDAG();
+    d.regFunc("half", (dag: DAG, args: Value[]) => {
+      if (typeof args[0].value !== "number") throw new ValueTypeError("half expects a number, found " + args[0]);
+      return dag.newNum(args[0].value / 2);
+    });
+    d.regFunc("buggy", (dag: DAG, args: Value[]) => dag.newNum((args[0].value as any).missing.length));
+    d.newVar("typed", d.newFunc("half", [d.newStr("two")]));
+    expect(d.getVar("typed")?.latestValue.value).toEqual(
+      new ErrorInfo(ErrorCode.TYPE, 'half expects a number, found "two"', "typed"),
+    );
+    d.newVar("bug", d.newFunc("buggy", [d.ONE]));
+    expect(() => d.getVar("bug")?.latestValue).toThrowError(TypeError);
+  });
+});
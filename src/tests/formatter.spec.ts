@@ -0,0 +1,82 @@
+import { DAG } from "../core";
+import { Parser, Operator } from "../parser";
+import { Formatter, format, quoteString } from "../formatter";
+
+function newParser(dag?: DAG): Parser {
+  return new Parser(dag || new DAG())
+    .setOP(new Operator("-", 10, -1, 100))
+    .setOP(new Operator("+", 10, -1, 100))
+    .setOP(new Operator("*", 30))
+    .setOP(new Operator("/", 30))
+    .setOP(new Operator("**", 40, Operator.RIGHT))
+    .setOP(new Operator("!", -1, -1, 5))
+    .setOP(new Operator("<", 5, Operator.NOASSOC));
+}
+
+function testFormatting(input: string, expected: string, options = {}) {
+  const p = newParser();
+  const e = p.parse(input);
+  const formatted = format(e, p, options);
+  expect(formatted).toEqual(expected);
+  // and round trips
+  expect(p.parse(formatted).debugValue()).toEqual(e.debugValue());
+}
+
+describe("Formatter Tests", () => {
+  test("Literals", () => {
+    testFormatting("3", "3");
+    testFormatting("true", "true");
+    testFormatting('"abc"', '"abc"');
+    testFormatting("3 [m/s]", "3 [m/s]");
+    testFormatting('r#"a "quoted" \\ string"#', 'r#"a "quoted" \\ string"#');
+    expect(quoteString('say "hi"')).toBe("'say \"hi\"'");
+    expect(quoteString('it\'s "#1"')).toBe('r##"it\'s "#1""##');
+  });
+
+  test("Only needed parens are kept", () => {
+    testFormatting("(a + b) + c", "a + b + c");
+    testFormatting("a + (b + c)", "a + (b + c)");
+    testFormatting("(a * b) + (c / d)", "a * b + c / d");
+    testFormatting("(a + b) * c", "(a + b) * c");
+    testFormatting("a ** (b ** c)", "a ** b ** c");
+    testFormatting("(a ** b) ** c", "(a ** b) ** c");
+    testFormatting("- (a + b)", "-(a + b)");
+    testFormatting("- a * b", "-a * b");
+    testFormatting("(! a) < b", "!a < b");
+    testFormatting("(! a) * b", "(!a) * b");
+    testFormatting("(a < b) < c", "(a < b) < c");
+    testFormatting("f(a + b, (c), g())", "f(a + b, c, g())");
+  });
+
+  test("Spacing", () => {
+    testFormatting("a * - b", "a* -b", { spaces: false });
+    testFormatting("a - (-3)", "a - (-3)");
+    testFormatting("- 3", "- 3");
+    testFormatting("f(a, b)", "f(a,b)", { spaces: false });
+  });
+
+  test("Variadic operators are printed as chains", () => {
+    const p = newParser();
+    const d = p.dag;
+    const e = d.newFunc("+", [d.newVarRef("a"), d.newVarRef("b"), d.newFunc("*", [d.newNum(2), d.newVarRef("c")])]);
+    expect(new Formatter(p.opinfos).format(e)).toBe("a + b + 2 * c");
+  });
+
+  test("Arrays, indexing and lambdas", () => {
+    testFormatting("[1, a + b]", "[1, a + b]");
+    testFormatting("(a + b)[0]", "(a + b)[0]");
+    testFormatting("xs[0][i * 2]", "xs[0][i * 2]");
+    testFormatting("map(xs, x => x * 2)", "map(xs, x => x * 2)");
+  });
+
+  test("Records and field access", () => {
+    testFormatting('{a: 1, "b c": x + 1}', '{a: 1, "b c": x + 1}');
+    testFormatting("(a + b).c", "(a + b).c");
+    testFormatting("order.item.qty", "order.item.qty");
+  });
+
+  test("Wrapping", () => {
+    testFormatting("func(alpha + beta, gamma)", "func(\n  alpha + beta,\n  gamma\n)", { maxWidth: 20 });
+    testFormatting("alpha + beta + gamma", "alpha + beta +\n  gamma", { maxWidth: 16 });
+  });
+});
@@ -0,0 +1,103 @@
+import { DAG, InvalidRefError, RecursionError } from "../core";
+import * as stdlib from "../stdlib";
+
+describe("Defined Function Tests", () => {
+  const newDAG = () => stdlib.PopulateDAG(new DAG());
+
+  test("Define and call functions", () => {
+    const d = newDAG();
+    const rev = d.newVarRef("rev");
+    const cost = d.newVarRef("cost");
+    d.defineFunc("margin", ["rev", "cost"], d.newFunc("/", [d.newFunc("-", [rev, cost]), rev]), "Profit margin");
+    d.newVar("rev", d.newNum(10));
+    d.newVar("m", d.newFunc("margin", [d.newNum(200), d.newNum(150)]));
+    expect(d.getVar("m")?.latestValue.value).toBe(0.25);
+    expect(d.getFunc("margin")).not.toBeNull();
+    expect(d.getFuncInfo("margin")?.paramNames).toEqual(["rev", "cost"]);
+    expect(d.getFuncInfo("margin")?.doc).toBe("Profit margin");
+    expect(() => d.newFunc("margin", [d.ONE])).toThrowError("margin expects 2 argument(s) but found 1");
+
+    // Functions calling functions, and from lambdas
+    const x = d.newVarRef("x");
+    d.defineFunc("half_margin", ["x"], d.newFunc("/", [d.newFunc("margin", [x, d.newNum(50)]), d.newNum(2)]));
+    d.newVar("xs", d.newArray([d.newNum(100), d.newNum(200)]));
+    d.newVar("hm", d.newFunc("map", [d.newVarRef("xs"), d.newLambda(["x"], d.newFunc("half_margin", [x]))]));
+    expect(d.getVar("hm")?.latestValue.value).toEqual([0.25, 0.375]);
+
+    expect(() => d.defineFunc("bad", ["a"], d.newFunc("+", [d.newVarRef("a"), rev]))).toThrowError(
+      new InvalidRefError("Undefined parameter in function bad: rev"),
+    );
+    expect(() => d.defineFunc("bad", ["a", "a"], d.ONE)).toThrowError(InvalidRefError);
+    expect(() => d.defineFunc("sum", ["a"], d.ONE)).toThrowError("Cannot redefine registered function: sum");
+  });
+
+  test("Recursion is limited", () => {
+    const d = newDAG();
+    const n = d.newVarRef("n");
+    const recurse = d.newFunc("fact", [d.newFunc("-", [n, d.ONE])]);
+    d.defineFunc("fact", ["n"], d.newFunc("if", [d.newFunc("<=", [n, d.ONE]), d.ONE, d.newFunc("*", [n, recurse])]));
+    expect(d.newFunc("fact", [d.newNum(5)]).latestValue.value).toBe(120);
+
+    d.defineFunc("forever", ["n"], d.newFunc("forever", [n]));
+    expect(() => d.newFunc("forever", [d.ONE]).latestValue).toThrowError(
+      new RecursionError("Maximum call depth of 256 exceeded calling forever"),
+    );
+    // The depth is reset after failing
+    expect(d.newFunc("fact", [d.newNum(3)]).latestValue.value).toBe(6);
+  });
+
+  test("Callers are recomputed when a function is redefined", () => {
+    const d = newDAG();
+    const x = d.newVarRef("x");
+    d.defineFunc("double", ["x"], d.newFunc("*", [x, d.newNum(2)]));
+    d.defineFunc("quad", ["x"], d.newFunc("double", [d.newFunc("double", [x])]));
+    d.newVar("a", d.newNum(3));
+    d.newVar("b", d.newFunc("quad", [d.newVarRef("a")]));
+    d.newVar("c", d.newFunc("+", [d.newVarRef("b"), d.ONE]));
+    d.newVar("other", d.newFunc("+", [d.newVarRef("a"), d.ONE]));
+    expect(d.getVar("c")?.latestValue.value).toBe(13);
+    expect(d.getVar("other")?.latestValue.value).toBe(4);
+
+    const changes: string[] = [];
+    d.onAnyChange((v) => changes.push(v.name));
+    d.defineFunc("double", ["x"], d.newFunc("*", [x, d.newNum(3)]));
+    expect(changes).toEqual(["b", "c"]);
+    expect(d.getVar("c")?.latestValue.value).toBe(28);
+
+    // Calls to functions defined later are resolved once they are
+    d.newVar("later", d.newFunc("triple", [d.newVarRef("a")]));
+    expect(String(d.getVar("later")?.lastValue)).toBe("#NAME: Unknown function: triple");
+    d.defineFunc("triple", ["x"], d.newFunc("*", [x, d.newNum(3)]));
+    expect(d.getVar("later")?.latestValue.value).toBe(9);
+  });
+
+  test("Functions are serialized with the DAG", () => {
+    const d = newDAG();
+    const n = d.newVarRef("n");
+    d.defineFunc(
+      "even",
+      ["n"],
+      d.newFunc("if", [d.newFunc("==", [n, d.ZERO]), d.TRUE, d.newFunc("odd", [d.newFunc("-", [n, d.ONE])])]),
+    );
+    d.defineFunc(
+      "odd",
+      ["n"],
+      d.newFunc("if", [d.newFunc("==", [n, d.ZERO]), d.FALSE, d.newFunc("even", [d.newFunc("-", [n, d.ONE])])]),
+    );
+    d.newVar("e", d.newFunc("even", [d.newNum(7)]));
+    const json = JSON.parse(JSON.stringify(d.toJSON()));
+    expect(json.functions.map((f: any) => [f.name, f.params])).toEqual([
+      ["even", ["n"]],
+      ["odd", ["n"]],
+    ]);
+    const loaded = DAG.fromJSON(json, newDAG());
+    expect(loaded.getVar("e")?.latestValue.value).toBe(false);
+    expect(loaded.toJSON()).toEqual(d.toJSON());
+
+    // Clones get their own copies of defined functions
+    const copy = d.clone();
+    copy.defineFunc("odd", ["n"], d.TRUE);
+    expect(copy.getVar("e")?.latestValue.value).toBe(true);
+    expect(d.getVar("e")?.latestValue.value).toBe(false);
+  });
+});
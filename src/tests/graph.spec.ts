@@ -0,0 +1,94 @@
+import { DAG, InvalidRefError } from "../core";
+import { toDot, toMermaid } from "../graph";
+import * as stdlib from "../stdlib";
+
+describe("Dependency Graph Tests", () => {
+  const newDAG = () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    d.newVar("price", d.newNum(10));
+    d.newVar("qty", d.newNum(3));
+    d.newVar("total", d.newFunc("*", [d.newVarRef("price"), d.newVarRef("qty")]));
+    const tax = d.newScope("tax");
+    tax.newVar("rate", d.newNum(0.5));
+    tax.newVar("due", tax.newFunc("*", [tax.newVarRef("total"), tax.newVarRef("rate")]));
+    d.newVar("net", d.newFunc("-", [d.newVarRef("total"), d.newVarRef("tax.due")]));
+    d.newVar("fee", d.newFunc("+", [d.newVarRef("shipping"), d.ONE]));
+    return d;
+  };
+
+  test("Dependencies and dependents", () => {
+    const d = newDAG();
+    expect(d.dependencies("net")).toEqual(["total", "tax.due"]);
+    expect(d.dependencies("net", { transitive: true })).toEqual(["price", "qty", "total", "tax.rate", "tax.due"]);
+    expect(d.getScope("tax")?.dependencies("due")).toEqual(["total", "tax.rate"]);
+    expect(() => d.dependencies("missing")).toThrowError(new InvalidRefError("Invalid reference: missing"));
+    expect(d.dependents("total").sort()).toEqual(["net", "tax.due"]);
+    expect(d.dependents("price", { transitive: true })).toEqual(["total", "tax.due", "net"]);
+    expect(d.dependents("shipping")).toEqual(["fee"]);
+
+    const order = d.topoOrder();
+    expect(order.length).toBe(7);
+    expect(order.indexOf("total")).toBeLessThan(order.indexOf("tax.due"));
+    expect(order.indexOf("tax.due")).toBeLessThan(order.indexOf("net"));
+    expect(d.getScope("tax")?.topoOrder()).toEqual(["tax.rate", "tax.due"]);
+    expect(d.unusedVars()).toEqual(["net", "fee"]);
+    expect(d.undefinedVars()).toEqual(["shipping"]);
+
+    d.newVar("shipping", d.newNum(5));
+    expect(d.undefinedVars()).toEqual([]);
+    expect(d.unusedVars()).toEqual(["net", "fee"]);
+  });
+
+  test("Export to DOT", () => {
+    const d = newDAG();
+    expect(toDot(d, { vars: ["net"], values: true })).toBe(`digraph {
+  rankdir=LR;
+  "price" [label="price = 10"];
+  "qty" [label="qty = 3"];
+  "total" [label="total = 30"];
+  "net" [label="net = 15"];
+  subgraph cluster_0 {
+    label="tax";
+    "tax.rate" [label="tax.rate = 0.5"];
+    "tax.due" [label="tax.due = 15"];
+  }
+  "price" -> "total";
+  "qty" -> "total";
+  "total" -> "tax.due";
+  "tax.rate" -> "tax.due";
+  "total" -> "net";
+  "tax.due" -> "net";
+}`);
+    const dot = toDot(d);
+    expect(dot).toContain('"shipping" [label="shipping (undefined)", style=dashed];');
+    expect(dot).toContain('"shipping" -> "fee";');
+    expect(toDot(d.getScope("tax")!)).not.toContain("total");
+  });
+
+  test("Export to Mermaid", () => {
+    const d = newDAG();
+    d.newVar("label", d.newStr('say "hi"'));
+    d.setValue("qty", d.newNum(2, d.parseUnits("kg")));
+    expect(toMermaid(d, { values: true })).toBe(`flowchart LR
+  v0["price = 10"]
+  v1["qty = 2 [kg]"]
+  v2["total = 20 [kg]"]
+  v5["net = 10 [kg]"]
+  v6["fee = #REF: Undefined variable: shipping"]
+  v7["label = #quot;say \\#quot;hi\\#quot;#quot;"]
+  v8["shipping (undefined)"]
+  subgraph s0 ["tax"]
+    v3["tax.rate = 0.5"]
+    v4["tax.due = 10 [kg]"]
+  end
+  v0 --> v2
+  v1 --> v2
+  v2 --> v4
+  v3 --> v4
+  v2 --> v5
+  v4 --> v5
+  v8 --> v6
+  classDef undefined stroke-dasharray: 5 5
+  class v8 undefined`);
+  });
+});
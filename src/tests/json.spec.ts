@@ -0,0 +1,74 @@
+import { CircularReferenceError, DAG, InvalidRefError, SchemaError } from "../core";
+import * as stdlib from "../stdlib";
+
+function newModel(): DAG {
+  const d = stdlib.PopulateDAG(new DAG());
+  d.newVar("dist", d.newNum(3, d.parseUnits("km")));
+  d.newVar("time", d.newNum(0.5, d.parseUnits("h")));
+  d.newVar("speed", d.newFunc("/", [d.newVarRef("dist"), d.newVarRef("time")]));
+  d.newVar("label", d.newStr("fast"));
+  d.newVar("flag", d.newBool(true));
+  d.getVar("speed")!.desc = "Average speed";
+  return d;
+}
+
+describe("JSON Serialization Tests", () => {
+  test("Round trip a DAG", () => {
+    const d = newModel();
+    const json = JSON.parse(JSON.stringify(d.toJSON()));
+    expect(json.version).toBe(1);
+    expect(json.vars).toEqual([
+      { name: "dist", desc: "", expr: { value: 3, units: "km" } },
+      { name: "time", desc: "", expr: { value: 0.5, units: "h" } },
+      { name: "speed", desc: "Average speed", expr: { func: "/", args: [{ var: "dist" }, { var: "time" }] } },
+      { name: "label", desc: "", expr: { value: "fast" } },
+      { name: "flag", desc: "", expr: { value: true } },
+    ]);
+    expect(json.unitConversions).toContainEqual({ from: "km", to: "m", factor: 1000 });
+
+    const loaded = DAG.fromJSON(json, stdlib.PopulateDAG(new DAG()));
+    expect(loaded.toJSON()).toEqual(d.toJSON());
+    expect(loaded.getVar("speed")?.desc).toBe("Average speed");
+    expect(loaded.getVar("speed")?.latestValue.debugValue()).toEqual({ value: 6, units: "km/h" });
+    expect(loaded.getVar("flag")?.value).toBe(loaded.TRUE);
+  });
+
+  test("Vars can be listed in any order", () => {
+    const json = {
+      version: 1,
+      vars: [
+        { name: "b", expr: { func: "+", args: [{ var: "a" }, { value: 1 }] } },
+        { name: "a", expr: { value: 1 } },
+      ],
+    };
+    const d = DAG.fromJSON(json, stdlib.PopulateDAG(new DAG()));
+    expect(d.getVar("b")?.latestValue.value).toBe(2);
+  });
+
+  test("Validate JSON", () => {
+    const load = (json: any) => () => DAG.fromJSON(json, stdlib.PopulateDAG(new DAG()));
+    expect(load(null)).toThrowError(SchemaError);
+    expect(load({ version: 2 })).toThrowError("Unsupported DAG JSON version: 2");
+    expect(load({ version: 1, vars: {} })).toThrowError('"vars" must be an array');
+    expect(load({ version: 1, vars: [{ name: "a", expr: { what: 1 } }] })).toThrowError(SchemaError);
+    expect(load({ version: 1, vars: [{ name: "a", expr: { func: "nope", args: [] } }] })).toThrowError(InvalidRefError);
+    expect(
+      load({
+        version: 1,
+        vars: [
+          { name: "a", expr: { value: 1 } },
+          { name: "a", expr: { value: 2 } },
+        ],
+      }),
+    ).toThrowError("Duplicate var: a");
+    expect(
+      load({
+        version: 1,
+        vars: [
+          { name: "a", expr: { var: "b" } },
+          { name: "b", expr: { var: "a" } },
+        ],
+      }),
+    ).toThrowError(CircularReferenceError);
+  });
+});
@@ -0,0 +1,105 @@
+import { ArrayError, DAG, Expr, ValueType } from "../core";
+import { CompileError } from "../compiler";
+import { derivative } from "../calculus";
+import * as stdlib from "../stdlib";
+import { TypeChecker } from "../typecheck";
+
+describe("Lazy Function Tests", () => {
+  const newDAG = () => stdlib.PopulateDAG(new DAG());
+
+  test("Only the branches taken are evaluated", () => {
+    const d = newDAG();
+    const xs = d.newVarRef("xs");
+    const i = d.newVarRef("i");
+    d.newVar("xs", d.newArray([d.newNum(1), d.newNum(2)]));
+    d.newVar("i", d.newNum(5));
+    // Indexing out of range throws so must not be evaluated
+    const inRange = d.newFunc("<", [i, d.newFunc("count", [xs])]);
+    d.newVar("elem", d.newFunc("if", [inRange, d.newFunc("index", [xs, i]), d.newNum(-1)]));
+    expect(d.getVar("elem")?.latestValue.value).toBe(-1);
+    d.setValue("i", d.newNum(1));
+    expect(d.getVar("elem")?.latestValue.value).toBe(2);
+    expect(() => d.setValue("xs", d.newArray([d.newNum(1)]))).not.toThrow();
+    expect(d.getVar("elem")?.latestValue.value).toBe(-1);
+    expect(() => d.newFunc("index", [xs, i]).latestValue).toThrowError(ArrayError);
+
+    expect(d.newFunc("if", [d.FALSE, d.newNum(1)]).latestValue.value).toBe(null);
+    expect(d.newFunc("if", [d.newArray([]), d.newNum(1), d.newNum(2)]).latestValue.value).toBe(2);
+  });
+
+  test("Untaken branches are not inputs", () => {
+    const d = newDAG();
+    const evaluated: string[] = [];
+    d.regFunc("trace", (dag, args) => {
+      evaluated.push(args[0].value);
+      return args[1];
+    });
+    const trace = (name: string, e: Expr) => d.newFunc("trace", [d.newStr(name), e]);
+    d.newVar("c", d.TRUE);
+    d.newVar("a", d.newNum(1));
+    d.newVar("b", d.newNum(2));
+    d.newVar("out", d.newFunc("if", [d.newVarRef("c"), trace("a", d.newVarRef("a")), trace("b", d.newVarRef("b"))]));
+    expect(d.getVar("out")?.latestValue.value).toBe(1);
+    expect(evaluated).toEqual(["a"]);
+
+    // Changing the branch not taken changes nothing
+    const changes: string[] = [];
+    d.onAnyChange((v) => changes.push(v.name));
+    evaluated.length = 0;
+    d.setValue("b", d.newNum(3));
+    expect(d.getVar("out")?.latestValue.value).toBe(1);
+    expect(evaluated).toEqual([]);
+    expect(changes).toEqual(["b"]);
+
+    d.setValue("c", d.FALSE);
+    expect(d.getVar("out")?.latestValue.value).toBe(3);
+    expect(evaluated).toEqual(["b"]);
+    evaluated.length = 0;
+    d.setValue("a", d.newNum(10));
+    expect(d.getVar("out")?.latestValue.value).toBe(3);
+    expect(evaluated).toEqual([]);
+  });
+
+  test("Logical operators, switch and coalesce", () => {
+    const d = newDAG();
+    const bad = d.newFunc("index", [d.newArray([]), d.newNum(0)]);
+    const value = (name: string, ...args: Expr[]) => d.newFunc(name, args).latestValue.value;
+    expect(value("&&", d.newNum(0), bad)).toBe(0);
+    expect(value("&&", d.TRUE, d.newStr("x"))).toBe("x");
+    expect(value("||", d.newStr("a"), bad)).toBe("a");
+    expect(value("||", d.FALSE, d.newNum(0))).toBe(0);
+    expect(value("??", d.NULL, d.newNum(2))).toBe(2);
+    expect(value("??", d.newNum(0), bad)).toBe(0);
+    expect(value("coalesce", d.NULL, d.NULL, d.newStr("c"), bad)).toBe("c");
+    expect(value("coalesce", d.NULL)).toBe(null);
+
+    const km = d.parseUnits("km");
+    const m = d.parseUnits("m");
+    expect(value("switch", d.newNum(2), d.newNum(1), d.newStr("one"), d.newNum(2), d.newStr("two"), bad)).toBe("two");
+    expect(value("switch", d.newNum(3), d.newNum(1), d.newStr("one"), d.newStr("other"))).toBe("other");
+    expect(value("switch", d.newNum(3), d.newNum(1), d.newStr("one"))).toBe(null);
+    expect(value("switch", d.newNum(1, km), d.newNum(1000, m), d.newStr("same"), d.newStr("other"))).toBe("same");
+
+    expect(value("<", d.newNum(900, m), d.newNum(1, km))).toBe(true);
+    expect(value("==", d.newArray([d.newNum(1), d.newNum(2)]), d.newNum(2))).toEqual([false, true]);
+    expect(value("!", d.newNum(0))).toBe(true);
+  });
+
+  test("Types, derivatives and compiling", () => {
+    const d = newDAG();
+    const x = d.newVarRef("x");
+    d.newVar("x", d.newNum(3));
+    d.newVar("abs", d.newFunc("if", [d.newFunc("<", [x, d.ZERO]), d.newFunc("-", [d.ZERO, x]), x]));
+    d.newVar("label", d.newFunc("if", [d.newFunc(">", [x, d.ZERO]), d.newStr("pos"), d.newNum(0)]));
+    const checker = new TypeChecker(d);
+    expect(checker.typeOf(d.getVar("abs")!.value)).toBe(ValueType.INT);
+    expect(checker.typeOf(d.getVar("label")!.value)).toBe(ValueType.ANY);
+
+    const dabs = derivative(d.getVar("abs")!.value, "x");
+    expect(dabs.latestValue.value).toBe(1);
+    d.setValue("x", d.newNum(-2));
+    expect(dabs.latestValue.value).toBe(-1);
+
+    expect(() => d.compile(["abs"], ["x"])).toThrowError(new CompileError("Cannot compile lazy functions: if"));
+  });
+});
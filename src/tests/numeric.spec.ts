@@ -0,0 +1,194 @@
+import { DAG, ErrorCode, SchemaError, ValueType } from "../core";
+import { BigIntBackend, Decimal, DecimalBackend, FLOAT, NumericBackend, Rational, RationalBackend } from "../numeric";
+import * as stdlib from "../stdlib";
+
+describe("Numeric Backend Tests", () => {
+  const newDAG = (numeric: NumericBackend) => {
+    const d = stdlib.PopulateDAG(new DAG());
+    d.numeric = numeric;
+    return d;
+  };
+
+  const evalCall = (d: DAG, funcname: string, ...args: string[]) =>
+    d.newFunc(
+      funcname,
+      args.map((a) => d.parseNum(a)),
+    ).latestValue;
+
+  test("Floats by default", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    expect(d.numeric).toBe(FLOAT);
+    expect(evalCall(d, "+", "0.1", "0.2").value).toBe(0.1 + 0.2);
+    expect(evalCall(d, "round", "2.5").value).toBe(3);
+    expect(FLOAT.round(2.345, 2)).toBe(2.35);
+    expect(FLOAT.round(1234, -2)).toBe(1200);
+  });
+
+  test("Exact decimals", () => {
+    const d = newDAG(new DecimalBackend({ precision: 10 }));
+    const sum = evalCall(d, "+", "0.1", "0.2");
+    expect(sum.value).toBeInstanceOf(Decimal);
+    expect(sum.toString()).toBe("0.3");
+    expect(sum.valueType).toBe(ValueType.FLOAT);
+    expect(evalCall(d, "==", "0.30", "0.3").value).toBe(true);
+    expect(evalCall(d, "-", "1", "0.01").toString()).toBe("0.99");
+    expect(evalCall(d, "*", "1.5", "-0.2").toString()).toBe("-0.3");
+    expect(evalCall(d, "/", "2", "3").toString()).toBe("0.6666666667");
+    expect(evalCall(d, "/", "1", "8").toString()).toBe("0.125");
+    expect(evalCall(d, "**", "1.1", "3").toString()).toBe("1.331");
+    expect(evalCall(d, "**", "2", "-2").toString()).toBe("0.25");
+    expect(evalCall(d, "/", "1", "0.0").value.code).toBe(ErrorCode.DIV0);
+    expect(evalCall(d, "<", "0.1", "0.11").value).toBe(true);
+
+    // Plain JS numbers mix in as their shortest representation
+    const mixed = d.newFunc("+", [d.newNum(0.1), d.parseNum("0.2")]).latestValue;
+    expect(mixed.toString()).toBe("0.3");
+    expect(JSON.stringify(mixed.value)).toBe('"0.3"');
+    expect(Decimal.parse("1.5e-3").toString()).toBe("0.0015");
+    expect(Decimal.parse("-12e2").equals(new Decimal(BigInt(-1200)))).toBe(true);
+
+    // Only changes in value are propagated
+    d.newVar("a", d.parseNum("1.50"));
+    d.newVar("b", d.newFunc("*", [d.newVarRef("a"), d.parseNum("2")]));
+    expect(d.getVar("b")?.latestValue.toString()).toBe("3");
+    const listener = jest.fn();
+    d.onChange("b", listener);
+    d.setValue("a", d.parseNum("1.5"));
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("Rounding modes", () => {
+    const round = (rounding: any, value: string, digits = 0) =>
+      new DecimalBackend({ rounding }).round(Decimal.parse(value), digits).toString();
+    expect(evalCall(newDAG(new DecimalBackend()), "round", "2.5").toString()).toBe("2");
+    expect(["2.5", "3.5", "-2.5"].map((v) => round("half-even", v))).toEqual(["2", "4", "-2"]);
+    expect(["2.5", "-2.5"].map((v) => round("half-up", v))).toEqual(["3", "-3"]);
+    expect(["2.5", "2.51"].map((v) => round("half-down", v))).toEqual(["2", "3"]);
+    expect(["2.1", "-2.1"].map((v) => round("up", v))).toEqual(["3", "-3"]);
+    expect(["2.9", "-2.9"].map((v) => round("down", v))).toEqual(["2", "-2"]);
+    expect(["2.9", "-2.1"].map((v) => round("floor", v))).toEqual(["2", "-3"]);
+    expect(["2.1", "-2.9"].map((v) => round("ceiling", v))).toEqual(["3", "-2"]);
+    expect(round("half-even", "1.005", 2)).toBe("1");
+    expect(round("half-up", "1.005", 2)).toBe("1.01");
+    expect(round("half-even", "1250", -2)).toBe("1200");
+  });
+
+  test("Exact rationals", () => {
+    const d = newDAG(new RationalBackend());
+    const third = evalCall(d, "/", "1", "3");
+    expect(third.value).toBeInstanceOf(Rational);
+    expect(third.toString()).toBe("1/3");
+    const one = d.newFunc("*", [third, d.newNum(3)]).latestValue;
+    expect(one.toString()).toBe("1");
+    expect(one.valueType).toBe(ValueType.INT);
+    expect(evalCall(d, "+", "0.5", "0.25").toString()).toBe("3/4");
+    expect(evalCall(d, "**", "0.5", "-3").toString()).toBe("8");
+    expect(evalCall(d, "round", "2.5").toString()).toBe("2");
+    expect(evalCall(d, ">", "0.34", "0.333").value).toBe(true);
+    expect(evalCall(d, "/", "1", "0").value.code).toBe(ErrorCode.DIV0);
+  });
+
+  test("BigInt integers", () => {
+    const d = newDAG(new BigIntBackend());
+    const big = evalCall(d, "**", "2", "100");
+    expect(big.value).toBe(BigInt("1267650600228229401496703205376"));
+    expect(big.toString()).toBe("1267650600228229401496703205376");
+    expect(evalCall(d, "/", "7", "2").value).toBe(BigInt(3));
+    expect(evalCall(d, "-", "3", "5").value).toBe(BigInt(-2));
+    expect(evalCall(d, "round", "7").value).toBe(BigInt(7));
+    expect(d.numeric.round(BigInt(1250), -2)).toBe(BigInt(1200));
+    expect(evalCall(d, "if", "0", "1", "2").value).toBe(BigInt(2));
+    expect(() => d.parseNum("1.5")).toThrowError(new TypeError("Not an integer: 1.5"));
+    // Other errors become error values in variables as usual
+    d.newVar("inverse", d.newFunc("**", [d.parseNum("2"), d.parseNum("-1")]));
+    expect(d.getVar("inverse")?.latestValue.value.code).toBe(ErrorCode.TYPE);
+  });
+
+  test("Floors, ceilings, roots and logarithms", () => {
+    const decimal = newDAG(new DecimalBackend());
+    const ceil = evalCall(decimal, "ceil", "1.0000000000000000000000001");
+    expect(ceil.value).toBeInstanceOf(Decimal);
+    expect(ceil.toString()).toBe("2");
+    expect(evalCall(decimal, "floor", "-1.5").toString()).toBe("-2");
+
+    const rational = newDAG(new RationalBackend());
+    const third = evalCall(rational, "/", "1", "3");
+    expect(rational.newFunc("floor", [third]).latestValue.value).toEqual(new Rational(BigInt(0)));
+    expect(rational.newFunc("ceil", [third]).latestValue.value).toEqual(new Rational(BigInt(1)));
+
+    const bigint = newDAG(new BigIntBackend());
+    expect(evalCall(bigint, "floor", "7").value).toBe(BigInt(7));
+    // Computed with floats whatever the backend
+    expect(evalCall(bigint, "log10", "1000").value).toBeCloseTo(3);
+    expect(evalCall(bigint, "log2", "1024").value).toBe(10);
+    expect(evalCall(decimal, "log", "1").value).toBe(0);
+    expect(evalCall(decimal, "root", "2.25", "2").value).toBe(1.5);
+    expect(evalCall(rational, "root", "27", "3").value).toBeCloseTo(3);
+  });
+
+  test("Zero to negative powers", () => {
+    for (const numeric of [FLOAT, new DecimalBackend(), new BigIntBackend(), new RationalBackend()]) {
+      const d = newDAG(numeric);
+      d.newVar("inverse", d.newFunc("**", [d.parseNum("0"), d.parseNum("-1")]));
+      expect(d.getVar("inverse")?.latestValue.value.code).toBe(ErrorCode.DIV0);
+      expect(evalCall(d, "**", "0", "2").toString()).toBe("0");
+    }
+  });
+
+  test("Indexing arrays", () => {
+    for (const numeric of [FLOAT, new DecimalBackend(), new BigIntBackend(), new RationalBackend()]) {
+      const d = newDAG(numeric);
+      d.newVar("xs", d.newArray(["10", "20", "30"].map((x) => d.parseNum(x))));
+      d.newVar("second", d.newFunc("index", [d.newVarRef("xs"), d.parseNum("1")]));
+      d.newVar("beyond", d.newFunc("index", [d.newVarRef("xs"), d.parseNum("3")]));
+      expect(d.getVar("second")?.latestValue.toString()).toBe("20");
+      expect(d.getVar("beyond")?.latestValue.value.code).toBe(ErrorCode.TYPE);
+    }
+    const d = newDAG(new RationalBackend());
+    d.newVar("half", d.newFunc("index", [d.newArray([d.ONE]), d.parseNum("0.5")]));
+    expect(d.getVar("half")?.latestValue.value.message).toBe("Index 1/2 out of range for an array of length 1");
+  });
+
+  test("Scopes share the numeric backend", () => {
+    const d = newDAG(new DecimalBackend());
+    d.newVar("rate", d.parseNum("0.1"));
+    const tax = d.newScope("tax");
+    expect(tax.numeric).toBe(d.numeric);
+    tax.newVar("due", tax.newFunc("*", [tax.newVarRef("rate"), tax.parseNum("0.7")]));
+    expect(d.getVar("tax.due")?.latestValue.toString()).toBe("0.07");
+  });
+
+  test("JSON round trips exact numbers", () => {
+    const roundTrip = (numeric: NumericBackend, literals: string[]) => {
+      const d = newDAG(numeric);
+      literals.forEach((text, i) => d.newVar("x" + i, d.parseNum(text, i == 0 ? d.parseUnits("m") : null)));
+      d.newVar("xs", d.newArray(literals.map((text) => d.parseNum(text))));
+      const json = JSON.parse(JSON.stringify(d.toJSON()));
+      expect(json.numeric).toBe(numeric.name);
+      const loaded = DAG.fromJSON(json, newDAG(numeric));
+      expect(loaded.toJSON()).toEqual(d.toJSON());
+      for (const name of ["x0", "x1", "xs"]) {
+        expect(loaded.getVar(name)?.latestValue.equals(d.getVar(name)!.latestValue)).toBe(true);
+      }
+      return json;
+    };
+    const big = roundTrip(new BigIntBackend(), ["12345678901234567890123", "-7"]);
+    expect(big.vars[0].expr).toEqual({ num: "12345678901234567890123", units: "m" });
+    const decimal = roundTrip(new DecimalBackend(), ["1.0000000000000000000000001", "0.1"]);
+    expect(decimal.vars[0].expr).toEqual({ num: "1.0000000000000000000000001", units: "m" });
+
+    const d = newDAG(new RationalBackend());
+    d.newVar("third", d.newFunc("/", [d.ONE, d.parseNum("3")]));
+    d.newVar("constant", d.getVar("third")!.latestValue);
+    const rational = roundTrip(new RationalBackend(), ["1.5", "2"]);
+    expect(rational.vars[2].expr).toEqual({ num: ["3/2", "2"] });
+    const loaded = DAG.fromJSON(JSON.parse(JSON.stringify(d.toJSON())), newDAG(new RationalBackend()));
+    expect(loaded.getVar("constant")?.latestValue.toString()).toBe("1/3");
+
+    // Numbers are only read with the backend they were written for
+    expect(() => DAG.fromJSON(big, newDAG(new DecimalBackend()))).toThrowError(SchemaError);
+    expect(() => DAG.fromJSON(big, stdlib.PopulateDAG(new DAG()))).toThrowError(
+      'DAG JSON is for the "bigint" numeric backend but the DAG uses "float"',
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { DAG, ErrorCode, Expr, ExprType } from "../core";
+import { Interval } from "../uncertainty";
+import * as stdlib from "../stdlib";
+import { Optimizer, optimize } from "../optimizer";
+
+describe("Optimizer Tests", () => {
+  const d = stdlib.PopulateDAG(new DAG());
+  const f = (name: string, ...args: Expr[]) => d.newFunc(name, args);
+  const x = d.newVarRef("x");
+  const y = d.newVarRef("y");
+  const n = (v: number) => d.newNum(v);
+
+  test("Fold constants", () => {
+    expect(optimize(f("*", n(2), n(3))).debugValue()).toBe(6);
+    expect(optimize(f("+", x, f("*", n(2), n(3)))).debugValue()).toEqual({ func: "+", args: ["Var(x)", 6] });
+    // Impure functions are not folded
+    d.regFunc("rand", () => n(Math.random()), { paramNames: [], pure: false });
+    expect(optimize(f("rand")).debugValue()).toEqual({ func: "rand", args: [] });
+  });
+
+  test("Errors and uncertain values are not folded", () => {
+    const e = stdlib.PopulateDAG(new DAG());
+    const ratio = optimize(e.newFunc("+", [e.newFunc("/", [e.ONE, e.ZERO]), e.ONE]));
+    expect(ratio.debugValue()).toEqual({ func: "+", args: [{ func: "/", args: [1, 0] }, 1] });
+    e.newVar("ratio", ratio);
+    expect(e.getVar("ratio")?.latestValue.value.code).toBe(ErrorCode.DIV0);
+
+    const shifted = optimize(e.newFunc("+", [e.newFunc("interval", [e.ONE, e.newNum(2)]), e.ONE]));
+    expect(shifted.type).toBe(ExprType.FUNCCALL);
+    e.newVar("shifted", shifted);
+    expect(e.getVar("shifted")?.latestValue.value).toEqual(new Interval(2, 3));
+  });
+
+  test("Remove identities", () => {
+    expect(optimize(f("+", x, n(0))).debugValue()).toBe("Var(x)");
+    expect(optimize(f("*", n(1), x)).debugValue()).toBe("Var(x)");
+    expect(optimize(f("**", x, n(1))).debugValue()).toBe("Var(x)");
+    expect(optimize(f("-", x, n(0), y)).debugValue()).toEqual({ func: "-", args: ["Var(x)", "Var(y)"] });
+    expect(optimize(f("/", x, n(1))).debugValue()).toBe("Var(x)");
+    expect(optimize(f("+", f("*", x, f("-", n(3), n(2))), f("*", y, n(0)))).debugValue()).toEqual({
+      func: "+",
+      args: ["Var(x)", { func: "*", args: ["Var(y)", 0] }],
+    });
+  });
+
+  test("Flatten associative chains", () => {
+    const e = optimize(f("+", f("+", x, f("+", y, n(1))), f("*", f("*", x, y), n(2))));
+    expect(e.debugValue()).toEqual({
+      func: "+",
+      args: ["Var(x)", "Var(y)", 1, { func: "*", args: ["Var(x)", "Var(y)", 2] }],
+    });
+  });
+
+  test("Identical subexpressions are shared", () => {
+    const dag = stdlib.PopulateDAG(new DAG());
+    let calls = 0;
+    dag.regFunc("slow", (dag, args) => {
+      calls++;
+      return args[0];
+    });
+    dag.newVar("x", dag.newNum(3));
+    dag.newVar("a", dag.newFunc("+", [dag.newFunc("slow", [dag.newVarRef("x")]), dag.newNum(1)]));
+    dag.newVar("b", dag.newFunc("*", [dag.newFunc("slow", [dag.newVarRef("x")]), dag.newNum(2)]));
+    new Optimizer(dag).optimizeVars();
+    const a = dag.getVar("a")!.value as any;
+    const b = dag.getVar("b")!.value as any;
+    expect(a.args[0]).toBe(b.args[0]);
+    expect(dag.getVar("a")?.latestValue.value).toBe(4);
+    expect(dag.getVar("b")?.latestValue.value).toBe(6);
+    expect(calls).toBe(1);
+    dag.setValue("x", dag.newNum(5));
+    expect(dag.getVar("a")?.latestValue.value).toBe(6);
+    expect(dag.getVar("b")?.latestValue.value).toBe(10);
+    expect(calls).toBe(2);
+  });
+});
@@ -1,16 +1,23 @@
 import { DAG, Expr } from "../core";
-import { Parser, Operator } from "../parser";
+import { BigIntBackend, DecimalBackend } from "../numeric";
+import { DocumentError, Parser, Operator, ParseError } from "../parser";
+import * as stdlib from "../stdlib";
 
-function testParsing(input: string, expected: any, debug = false, dag?: DAG) {
-  dag = dag || new DAG();
-  const p = new Parser(dag);
-  p.setOP(new Operator("-", 10, -1, 100))
+function newParser(dag?: DAG): Parser {
+  const p = new Parser(dag || new DAG());
+  return p
+    .setOP(new Operator("-", 10, -1, 100))
     .setOP(new Operator("+", 10, -1, 100))
     .setOP(new Operator("%", 20))
     .setOP(new Operator("*", 30))
     .setOP(new Operator("/", 30))
     .setOP(new Operator("^", 40))
-    .setOP(new Operator("|", 50));
+    .setOP(new Operator("|", 50))
+    .setOP(new Operator("<", 5, Operator.NOASSOC));
+}
+
+function testParsing(input: string, expected: any, debug = false, dag?: DAG) {
+  const p = newParser(dag);
   const e1 = p.parse(input);
   const found = e1.debugValue();
   if (debug) {
@@ -54,6 +61,22 @@ describe("Parser Tests", () => {
     testParsing('r#"\n3\n"#', "\n3\n");
   });
 
+  test("Test Units Parsing", () => {
+    testParsing("3 [m/s]", { value: 3, units: "m/s" });
+    testParsing("2.5[kg*m/s^2]", { value: 2.5, units: "kg*m/s*s" });
+    testParsing("3 [m] * 2", { func: "*", args: [{ value: 3, units: "m" }, 2] });
+  });
+
+  test("Literals use the numeric backend", () => {
+    const dag = new DAG();
+    dag.numeric = new DecimalBackend();
+    const e = newParser(dag).parse("0.10 [m] + 2") as any;
+    expect(String(e.args[0])).toBe("0.1 [m]");
+    expect(String(e.args[1])).toBe("2");
+    dag.numeric = new BigIntBackend();
+    expect(() => newParser(dag).parse("1 + 2.5")).toThrowError(ParseError);
+  });
+
   test("Test Op Parsing", () => {
     testParsing("1 + 2", { args: [1, 2], func: "+" });
     testParsing("1 + 2 + 3", {
@@ -118,6 +141,52 @@ describe("Parser Tests", () => {
     });
   });
 
+  test("Arrays, indexing and lambdas", () => {
+    testParsing("[1, 2 + 3]", { func: "array", args: [1, { func: "+", args: [2, 3] }] });
+    testParsing("[]", { func: "array", args: [] });
+    testParsing("xs[i + 1] * 2", {
+      func: "*",
+      args: [{ func: "index", args: ["Var(xs)", { func: "+", args: ["Var(i)", 1] }] }, 2],
+    });
+    testParsing("f(x)[0][1]", {
+      func: "index",
+      args: [{ func: "index", args: [{ func: "f", args: ["Var(x)"] }, 0] }, 1],
+    });
+    testParsing("map(xs, x => x * k)", {
+      func: "map",
+      args: ["Var(xs)", { lambda: ["x"], body: { func: "*", args: ["Var(x)", "Var(k)"] } }],
+    });
+  });
+
+  test("Records and field access", () => {
+    testParsing('{a: 1, "b c": x + 1}', {
+      func: "record",
+      args: ["a", 1, "b c", { func: "+", args: ["Var(x)", 1] }],
+    });
+    testParsing("{}", { func: "record", args: [] });
+    testParsing("order.item.qty * 2", {
+      func: "*",
+      args: [{ func: "field", args: [{ func: "field", args: ["Var(order)", "item"] }, "qty"] }, 2],
+    });
+    testParsing("xs[0].a", { func: "field", args: [{ func: "index", args: ["Var(xs)", 0] }, "a"] });
+  });
+
+  test("Conditionals", () => {
+    testParsing("x < 0 ? 0 - x : x", {
+      func: "if",
+      args: [{ func: "<", args: ["Var(x)", 0] }, { func: "-", args: [0, "Var(x)"] }, "Var(x)"],
+    });
+    testParsing("x?1:2", { func: "if", args: ["Var(x)", 1, 2] });
+    testParsing("a ? 1 : b ? 2 : 3", { func: "if", args: ["Var(a)", 1, { func: "if", args: ["Var(b)", 2, 3] }] });
+    testParsing("(a ? 1 : 2) * 3", { func: "*", args: [{ func: "if", args: ["Var(a)", 1, 2] }, 3] });
+    testParsing("{a: c ? 1 : 2}", { func: "record", args: ["a", { func: "if", args: ["Var(c)", 1, 2] }] });
+    const p = newParser().setOP(new Operator("??", 1));
+    expect(p.parse("a ?? b * 2").debugValue()).toEqual({
+      func: "??",
+      args: ["Var(a)", { func: "*", args: ["Var(b)", 2] }],
+    });
+  });
+
   test("Test OpPrec Parsing", () => {
     testParsing("1 + 2 + 3 + 4 + 5", {
       func: "+",
@@ -143,3 +212,164 @@ describe("Parser Tests", () => {
     });
   });
 });
+
+describe("Parser Error Tests", () => {
+  function parseError(input: string): ParseError {
+    try {
+      newParser().parse(input);
+    } catch (err) {
+      expect(err).toBeInstanceOf(ParseError);
+      return err as ParseError;
+    }
+    throw new Error("Expected parse to fail: " + input);
+  }
+
+  test("Exprs carry source spans", () => {
+    const e = newParser().parse("a + func(b, 3)");
+    expect(e.span).toEqual({ start: 0, end: 14 });
+    const call = (e as any).args[1];
+    expect(call.span).toEqual({ start: 4, end: 14 });
+    expect(call.args[0].span).toEqual({ start: 9, end: 10 });
+    expect(call.args[1].span).toEqual({ start: 12, end: 13 });
+  });
+
+  test("Invalid operators", () => {
+    const err = parseError("1 %% 2");
+    expect(err.line).toBe(1);
+    expect(err.column).toBe(3);
+    expect(err.message).toBe("Line 1, Column 3: Invalid operator: %%\n  1 %% 2\n    ^^");
+  });
+
+  test("Non prefix operators", () => {
+    const err = parseError("\n* 2");
+    expect(err.reason).toBe("(*) is not a prefix operator");
+    expect([err.line, err.column]).toEqual([2, 1]);
+  });
+
+  test("Non associative operators", () => {
+    testParsing("1 < 2", { func: "<", args: [1, 2] });
+    const err = parseError("1 < 2 < 3");
+    expect(err.reason).toBe("(<) is non-associative and cannot be chained with (<)");
+    expect(err.column).toBe(7);
+  });
+
+  test("Unterminated raw strings", () => {
+    const err = parseError('r#"abc');
+    expect(err.expected).toEqual(['"#']);
+    expect(err.column).toBe(1);
+  });
+
+  test("Unexpected tokens", () => {
+    const err = parseError("func(1, 2");
+    expect(err.line).toBe(1);
+    expect(err.message).toContain("func(1, 2");
+  });
+});
+
+describe("Document Tests", () => {
+  function documentErrors(input: string, dag?: DAG): ParseError[] {
+    try {
+      newParser(dag).parseDocument(input);
+    } catch (err) {
+      expect(err).toBeInstanceOf(DocumentError);
+      return (err as DocumentError).errors;
+    }
+    throw new Error("Expected document to fail: " + input);
+  }
+
+  test("Load a document", () => {
+    const dag = stdlib.PopulateDAG(new DAG());
+    const vars = newParser(dag).load(`
+      # Total cost
+      # including all units
+      total = price * qty   // forward references are allowed
+      # Price of a single unit
+      price = 10;
+      qty = 3; discount = 0
+    `);
+    expect(vars.map((v) => v.name)).toEqual(["price", "qty", "total", "discount"]);
+    expect(dag.getVar("total")?.desc).toBe("Total cost\nincluding all units");
+    expect(dag.getVar("price")?.desc).toBe("Price of a single unit");
+    expect(dag.getVar("total")?.latestValue.value).toBe(30);
+  });
+
+  test("Load a document with arrays", () => {
+    const dag = stdlib.PopulateDAG(new DAG());
+    newParser(dag).load(`
+      sales = [10, 20, 30]
+      doubled = map(sales, x => x * 2)
+      total = sum(filter(doubled, x => x - 20))
+    `);
+    expect(dag.getVar("doubled")?.latestValue.value).toEqual([20, 40, 60]);
+    expect(dag.getVar("total")?.latestValue.value).toBe(100);
+  });
+
+  test("Load a document with functions", () => {
+    const dag = stdlib.PopulateDAG(new DAG());
+    newParser(dag).load(`
+      m = margin(revenue, cost)
+      # Profit as a fraction of revenue
+      margin(rev, cost) = (rev - cost) / rev
+      revenue = 200; cost = 150
+      one() = 1
+    `);
+    expect(dag.getVar("m")?.latestValue.value).toBe(0.25);
+    expect(dag.getFuncInfo("margin")?.doc).toBe("Profit as a fraction of revenue");
+    expect(dag.getFuncInfo("one")?.paramNames).toEqual([]);
+  });
+
+  test("Load a document referring to scopes", () => {
+    const dag = stdlib.PopulateDAG(new DAG());
+    dag.newVar("income", dag.newNum(1000));
+    const tax = dag.newScope("tax");
+    newParser(tax).load(`
+      rate = 0.2
+      due = income * rate
+    `);
+    newParser(dag).load(`
+      net = income - tax.due
+      order = {tax: 5}
+      fee = order.tax
+    `);
+    expect(dag.getVar("net")?.latestValue.value).toBe(800);
+    expect(dag.getVar("fee")?.latestValue.value).toBe(5);
+    expect(documentErrors("x = tax.missing", dag).map((e) => e.reason)).toEqual(["Undefined variable: tax.missing"]);
+  });
+
+  test("Report errors in functions", () => {
+    const errors = documentErrors(
+      `f(a) = a + b
+f(x) = x
+sum(x) = x
+g(a, a) = a`,
+      stdlib.PopulateDAG(new DAG()),
+    );
+    expect(errors.map((e) => [e.line, e.reason])).toEqual([
+      [2, "Duplicate definition of function: f"],
+      [3, "Cannot redefine registered function: sum"],
+      [1, "Undefined parameter in function f: b"],
+      [4, "Duplicate parameter in function: g"],
+    ]);
+  });
+
+  test("Report all errors", () => {
+    const errors = documentErrors(`x = 1 %% 2
+y = 3
+z = (4;
+w = y`);
+    expect(errors.map((e) => e.line)).toEqual([1, 3]);
+    expect(errors[0].reason).toBe("Invalid operator: %%");
+  });
+
+  test("Report duplicates, undefined vars and cycles", () => {
+    const errors = documentErrors(`a = b + c
+b = a
+d = 1
+d = 2`);
+    expect(errors.map((e) => [e.line, e.reason])).toEqual([
+      [4, "Duplicate definition of variable: d"],
+      [1, "Undefined variable: c"],
+      [1, "Circular reference: a -> b -> a"],
+    ]);
+  });
+});
@@ -0,0 +1,75 @@
+import { DAG, Expr, RecordError, ValueType } from "../core";
+import * as stdlib from "../stdlib";
+import { TypeChecker } from "../typecheck";
+
+describe("Record Tests", () => {
+  const newDAG = () => stdlib.PopulateDAG(new DAG());
+  const field = (d: DAG, record: Expr, ...path: string[]) =>
+    path.reduce((rec, name) => d.newFunc("field", [rec, d.newStr(name)]), record);
+
+  test("Records from literals and host objects", () => {
+    const d = newDAG();
+    d.newVar("x", d.newNum(5));
+    d.newVar("rec", d.newFunc("record", [d.newStr("a"), d.newNum(1), d.newStr("b"), d.newVarRef("x")]));
+    expect(d.getVar("rec")?.latestValue.value).toEqual({ a: 1, b: 5 });
+    expect(d.getVar("rec")?.latestValue.valueType).toBe(ValueType.RECORD);
+
+    d.newVar("config", d.newRecord({ region: { name: "emea", rates: [1, 2, 3] }, enabled: true }));
+    expect(field(d, d.newVarRef("config"), "region", "name").latestValue.value).toBe("emea");
+    expect(d.newFunc("sum", [field(d, d.newVarRef("config"), "region", "rates")]).latestValue.value).toBe(6);
+    expect(() => field(d, d.newVarRef("config"), "missing").latestValue).toThrowError(
+      new RecordError("Unknown field: missing"),
+    );
+    expect(() => field(d, d.newVarRef("x"), "a").latestValue).toThrowError(RecordError);
+    expect(() => d.newRecord({ a: d.newNum(1, d.parseUnits("m")) })).toThrowError(
+      "Record fields cannot have units: a (m)",
+    );
+  });
+
+  test("Only formulas reading a changed field are recomputed", () => {
+    const d = newDAG();
+    const evaluated: string[] = [];
+    d.regFunc("trace", (dag, args) => {
+      evaluated.push(args[0].value);
+      return args[1];
+    });
+    const order = d.newVarRef("order");
+    d.newVar("order", d.newRecord({ qty: 2, item: { price: 10, name: "pen" } }));
+    d.newVar("qty", d.newFunc("trace", [d.newStr("qty"), field(d, order, "qty")]));
+    d.newVar("price", d.newFunc("trace", [d.newStr("price"), field(d, order, "item", "price")]));
+    d.newVar("total", d.newFunc("*", [d.newVarRef("qty"), d.newVarRef("price")]));
+    const changes: string[] = [];
+    d.onAnyChange((v) => changes.push(v.name));
+    expect(d.getVar("total")?.latestValue.value).toBe(20);
+    expect(evaluated).toEqual(["qty", "price"]);
+
+    evaluated.length = 0;
+    d.setField("order", ["qty"], 3);
+    expect(d.getVar("total")?.latestValue.value).toBe(30);
+    expect(evaluated).toEqual(["qty"]);
+    expect(changes).toEqual(["order", "qty", "total"]);
+
+    evaluated.length = 0;
+    d.setField("order", ["item", "price"], d.newNum(20));
+    expect(d.getVar("total")?.latestValue.value).toBe(60);
+    expect(evaluated).toEqual(["price"]);
+    expect(d.getVar("order")?.latestValue.value).toEqual({ qty: 3, item: { price: 20, name: "pen" } });
+
+    // Setting a field to the same value changes nothing
+    changes.length = 0;
+    d.setField("order", ["item", "name"], "pen");
+    expect(changes).toEqual([]);
+    expect(() => d.setField("qty", ["a"], 1)).toThrowError("Not a record variable: qty");
+    expect(() => d.setField("order", ["qty", "a"], 1)).toThrowError("Not a record: order.qty");
+  });
+
+  test("Records round trip through JSON", () => {
+    const d = newDAG();
+    d.newVar("config", d.newRecord({ a: { b: [1, 2] } }));
+    d.newVar("b", field(d, d.newVarRef("config"), "a", "b"));
+    const loaded = DAG.fromJSON(JSON.parse(JSON.stringify(d.toJSON())), newDAG());
+    expect(loaded.toJSON()).toEqual(d.toJSON());
+    expect(loaded.getVar("b")?.latestValue.value).toEqual([1, 2]);
+    expect(new TypeChecker(d).check()).toEqual([]);
+  });
+});
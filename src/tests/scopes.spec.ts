@@ -0,0 +1,96 @@
+import { CircularReferenceError, DAG, ScopeError } from "../core";
+import * as stdlib from "../stdlib";
+
+describe("Scope Tests", () => {
+  const newDAG = () => stdlib.PopulateDAG(new DAG());
+
+  test("Scopes look up names in their parents", () => {
+    const d = newDAG();
+    d.newVar("income", d.newNum(1000));
+    const tax = d.newScope("tax");
+    tax.newVar("rate", d.newNum(0.2));
+    tax.newVar("due", tax.newFunc("*", [tax.newVarRef("income"), tax.newVarRef("rate")]));
+    d.newVar("net", d.newFunc("-", [d.newVarRef("income"), d.newVarRef("tax.due")]));
+    expect(d.getVar("net")?.latestValue.value).toBe(800);
+    expect(d.getVar("tax.due")?.qualifiedName).toBe("tax.due");
+    expect(tax.getVar("income")?.dag).toBe(d);
+    expect(d.getVar("rate")).toBeNull();
+    expect(d.getScope("tax")).toBe(tax);
+
+    // Changes propagate both ways
+    const changes: string[] = [];
+    d.onAnyChange((v) => changes.push(v.qualifiedName));
+    d.setValue("income", d.newNum(2000));
+    expect(changes).toEqual(["income", "tax.due", "net"]);
+    changes.length = 0;
+    d.setValue("tax.rate", d.newNum(0.5));
+    expect(changes).toEqual(["tax.rate", "tax.due", "net"]);
+    expect(d.getVar("net")?.latestValue.value).toBe(1000);
+    expect(d.affectedVars("tax.rate")).toEqual(["tax.rate", "tax.due", "net"]);
+
+    // Defining a name in the scope hides the parent's
+    tax.newVar("income", d.newNum(100));
+    expect(d.getVar("net")?.latestValue.value).toBe(1950);
+    changes.length = 0;
+    d.setValue("income", d.newNum(3000));
+    expect(changes).toEqual(["income", "net"]);
+  });
+
+  test("Mounted DAGs keep their own functions and units", () => {
+    const shipping = newDAG();
+    shipping.regUnitConversion("lb", "kg", 0.45359237);
+    shipping.regFunc("rate_for", (dag, args) => dag.newNum(args[0].value > 10 ? 5 : 8));
+    shipping.newVar("weight", shipping.newNum(20, shipping.parseUnits("lb")));
+    shipping.newVar(
+      "cost",
+      shipping.newFunc("rate_for", [
+        shipping.newFunc("convert", [shipping.newVarRef("weight"), shipping.newStr("kg")]),
+      ]),
+    );
+
+    const d = newDAG();
+    d.newVar("price", d.newNum(100));
+    d.newVar("total", d.newFunc("+", [d.newVarRef("price"), d.newVarRef("shipping.cost")]));
+    expect(String(d.getVar("total")?.latestValue)).toBe("#REF: Undefined variable: shipping.cost");
+    d.mount("shipping", shipping);
+    expect(d.getVar("total")?.latestValue.value).toBe(108);
+    expect(d.getFunc("rate_for")).toBeNull();
+    expect(() => d.parseUnits("lb") && d.unitsFactor(d.parseUnits("lb"), d.parseUnits("kg"))).toThrowError(
+      "Incompatible units: (lb) and (kg)",
+    );
+
+    const listener = jest.fn();
+    d.onChange("shipping.cost", listener);
+    shipping.setValue("weight", shipping.newNum(30, shipping.parseUnits("lb")));
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(d.getVar("total")?.latestValue.value).toBe(105);
+
+    // Round trips with scopes
+    const copy = d.clone();
+    expect(copy.getVar("total")?.latestValue.value).toBe(105);
+    copy.setValue("shipping.weight", copy.newNum(1, copy.parseUnits("lb")));
+    expect(copy.getVar("total")?.latestValue.value).toBe(108);
+    expect(d.getVar("total")?.latestValue.value).toBe(105);
+    expect(copy.toJSON().scopes?.map((s) => s.name)).toEqual(["shipping"]);
+  });
+
+  test("Cycles across scopes and invalid mounts", () => {
+    const d = newDAG();
+    const inner = d.newScope("inner");
+    inner.newVar("a", inner.newFunc("+", [inner.newVarRef("b"), d.ONE]));
+    d.newVar("b", d.newNum(1));
+    expect(inner.getVar("a")?.latestValue.value).toBe(2);
+    expect(() => d.setValue("b", d.newVarRef("inner.a"))).toThrowError(CircularReferenceError);
+
+    const other = newDAG();
+    other.newVar("x", other.newVarRef("y"));
+    d.newVar("y", d.newVarRef("m.x"));
+    expect(() => d.mount("m", other)).toThrowError(new CircularReferenceError("Circular reference for variable: y"));
+    expect(other.parent).toBeNull();
+
+    expect(() => d.newScope("inner")).toThrowError(new ScopeError("Scope already exists: inner"));
+    expect(() => d.newScope("a.b")).toThrowError(ScopeError);
+    expect(() => inner.mount("up", d)).toThrowError(new ScopeError("Cannot mount a DAG inside itself"));
+    expect(() => newDAG().mount("again", inner)).toThrowError(new ScopeError("DAG is already mounted as: inner"));
+  });
+});
@@ -0,0 +1,79 @@
+import { DAG, SolveError } from "../core";
+import * as stdlib from "../stdlib";
+
+describe("Solver Tests", () => {
+  const newDAG = () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    const ref = (name: string) => d.newVarRef(name);
+    // margin = (price - cost) / price
+    d.newVar("price", d.newNum(10));
+    d.newVar("cost", d.newNum(7));
+    d.newVar("margin", d.newFunc("/", [d.newFunc("-", [ref("price"), ref("cost")]), ref("price")]));
+    return d;
+  };
+
+  test("Solve for a single input", () => {
+    const d = newDAG();
+    const changes: string[] = [];
+    d.onAnyChange((v) => changes.push(v.name));
+    const result = d.solve("margin", 0.5, { vary: ["price"], apply: false });
+    expect(result.converged).toBe(true);
+    expect(result.method).toBe("newton");
+    expect(result.values.price).toBeCloseTo(14);
+    expect(result.applied).toBe(false);
+    // Nothing in the real DAG changes until a solution is applied
+    expect(changes).toEqual([]);
+    expect(d.getVar("price")?.latestValue.value).toBe(10);
+
+    d.solve("margin", 0.5, { vary: ["price"] });
+    expect(d.getVar("price")?.latestValue.value).toBeCloseTo(14);
+    expect(d.getVar("margin")?.latestValue.value).toBeCloseTo(0.5);
+    expect(changes).toEqual(["price", "margin"]);
+  });
+
+  test("Bracketed solves", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    d.newVar("x", d.newNum(1));
+    d.newVar("y", d.newFunc("-", [d.newFunc("**", [d.newVarRef("x"), d.newNum(3)]), d.newNum(8)]));
+    const result = d.solve("y", 0, { vary: ["x"], bounds: { x: [0, 50] }, apply: false });
+    expect(result.method).toBe("bisection");
+    expect(result.converged).toBe(true);
+    expect(result.values.x).toBeCloseTo(2);
+  });
+
+  test("Solve with units", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    d.newVar("distance", d.newNum(100, d.parseUnits("km")));
+    d.newVar("time", d.newNum(2, d.parseUnits("h")));
+    d.newVar("speed", d.newFunc("/", [d.newVarRef("distance"), d.newVarRef("time")]));
+    d.solve("speed", d.newNum(10, d.parseUnits("m/s")), { vary: ["time"] });
+    const time = d.getVar("time")!.latestValue;
+    expect(time.value).toBeCloseTo(100 / 36);
+    expect(time.units?.toString()).toBe("h");
+  });
+
+  test("Solve for several inputs", () => {
+    const d = newDAG();
+    const result = d.solve("margin", 0.25, { vary: ["price", "cost"], bounds: { cost: [7.5, 100] } });
+    expect(result.method).toBe("least-squares");
+    expect(result.converged).toBe(true);
+    expect(result.values.cost).toBeGreaterThanOrEqual(7.5);
+    expect(d.getVar("margin")?.latestValue.value).toBeCloseTo(0.25);
+  });
+
+  test("Report failures", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    d.newVar("x", d.newNum(1));
+    d.newVar("y", d.newFunc("*", [d.newVarRef("x"), d.newVarRef("x")]));
+    const result = d.solve("y", -4, { vary: ["x"], maxIterations: 20 });
+    expect(result.converged).toBe(false);
+    expect(result.applied).toBe(false);
+    expect(result.message).not.toBe("Converged");
+    expect(d.getVar("x")?.latestValue.value).toBe(1);
+
+    expect(() => d.solve("z", 1, { vary: ["x"] })).toThrowError(SolveError);
+    expect(() => d.solve("x", 1, { vary: ["y"] })).toThrowError("Only variables with numeric values can be varied: y");
+    d.newVar("w", d.newNum(3));
+    expect(() => d.solve("y", 1, { vary: ["w"] })).toThrowError("y does not depend on w");
+  });
+});
@@ -0,0 +1,100 @@
+import { DAG, Expr, ExprType, Tracer, Value } from "../core";
+import * as stdlib from "../stdlib";
+
+describe("Trace Tests", () => {
+  const newDAG = () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    d.newVar("price", d.newNum(10));
+    d.newVar("qty", d.newNum(3));
+    d.newVar("total", d.newFunc("*", [d.newVarRef("price"), d.newVarRef("qty")]));
+    d.newVar("discount", d.newFunc("if", [d.newFunc(">", [d.newVarRef("total"), d.newNum(100)]), d.newNum(5), d.ZERO]));
+    d.newVar("net", d.newFunc("-", [d.newVarRef("total"), d.newVarRef("discount")]));
+    return d;
+  };
+
+  test("Explain how a value was computed", () => {
+    const d = newDAG();
+    const trace = d.explain("net");
+    expect(trace.value?.value).toBe(30);
+    expect(trace.cached).toBe(false);
+    expect(trace.format()).toBe(`net = 30
+  - = 30
+    total = 30
+      * = 30
+        price = 10
+        qty = 3
+    discount = 0
+      if = 0
+        > = false
+          total = 30
+          100`);
+
+    // Values already computed are still explained
+    d.setValue("qty", d.newNum(20));
+    const again = d.explain("net");
+    expect(again.format()).toBe(`net = 195 (cached)
+  - = 195 (cached)
+    total = 200 (cached)
+      * = 200 (cached)
+        price = 10 (cached)
+        qty = 20 (cached)
+    discount = 5 (cached)
+      if = 5 (cached)
+        > = true (cached)
+          total = 200 (cached)
+          100`);
+
+    const json = JSON.parse(JSON.stringify(again));
+    expect(json.inputs[0].inputs.map((n: any) => [n.label, n.value, n.cached])).toEqual([
+      ["total", 200, true],
+      ["discount", 5, true],
+    ]);
+    expect(typeof json.time).toBe("number");
+  });
+
+  test("Errors and units are recorded", () => {
+    const d = newDAG();
+    d.newVar("xs", d.newArray([d.newNum(1)]));
+    d.newVar("bad", d.newFunc("+", [d.newFunc("index", [d.newVarRef("xs"), d.newNum(3)]), d.ONE]));
+    const trace = d.explain("bad");
+    expect(String(trace.value)).toBe("#TYPE: Index 3 out of range for an array of length 1");
+    expect(trace.inputs[0].inputs[0].format()).toBe(`index failed: Index 3 out of range for an array of length 1
+  xs = [1]
+  3`);
+    expect(() => d.explain("missing")).toThrowError("Invalid reference: missing");
+
+    d.newVar("len", d.newNum(2, d.parseUnits("m")));
+    expect(d.explain("len").toJSON()).toEqual({
+      label: "len",
+      value: 2,
+      units: "m",
+      cached: false,
+      time: expect.any(Number),
+      inputs: [],
+    });
+  });
+
+  test("Tracing hook", () => {
+    const d = newDAG();
+    const log: string[] = [];
+    const tracer: Tracer = {
+      enter: () => null,
+      exit: (expr: Expr, value: Value | null, cached: boolean) => {
+        if (expr.type == ExprType.VARREF && !cached) log.push(`${(expr as any).name}=${value}`);
+      },
+    };
+    d.tracer = tracer;
+    d.getVar("net")?.latestValue;
+    expect(log).toEqual(["price=10", "qty=3", "total=30", "total=30", "discount=0"]);
+
+    // Including while changes are propagated and explained
+    log.length = 0;
+    d.setValue("price", d.newNum(1));
+    expect(log).toEqual(["price=1", "total=3", "total=3"]);
+    expect(d.explain("total").format()).toBe(`total = 3 (cached)
+  * = 3 (cached)
+    price = 1 (cached)
+    qty = 3 (cached)`);
+    expect(d.tracer).toBe(tracer);
+  });
+});
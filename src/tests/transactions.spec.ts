@@ -0,0 +1,146 @@
+import { CircularReferenceError, DAG, TransactionError } from "../core";
+import * as stdlib from "../stdlib";
+
+describe("Transaction Tests", () => {
+  const newDAG = () => stdlib.PopulateDAG(new DAG());
+
+  test("Edits are validated and applied together", () => {
+    const d = newDAG();
+    d.newVar("a", d.newNum(1));
+    d.newVar("b", d.newFunc("+", [d.newVarRef("a"), d.ONE]));
+    expect(d.getVar("b")?.latestValue.value).toBe(2);
+    const changes: string[] = [];
+    d.onAnyChange((v, oldValue, newValue) => changes.push(`${v.name}: ${oldValue.value} -> ${newValue.value}`));
+
+    // Intermediate states may be invalid as long as the final one is not
+    d.transaction(() => {
+      d.setValue("a", d.newVarRef("b"));
+      expect(changes).toEqual([]);
+      d.setValue("b", d.newNum(5));
+      d.setValue("c", d.newFunc("*", [d.newVarRef("a"), d.newNum(2)]));
+    }, "rewire");
+    expect(changes).toEqual(["b: 2 -> 5", "a: 1 -> 5", "c: null -> 10"]);
+    expect(d.getVar("c")?.latestValue.value).toBe(10);
+
+    // Nested transactions are part of the outer one
+    changes.length = 0;
+    const out = d.transaction(() => {
+      d.setValue("b", d.newNum(6));
+      return d.transaction(() => d.setValue("b", d.newNum(7)).name);
+    });
+    expect(out).toBe("b");
+    expect(changes).toEqual(["b: 5 -> 7", "a: 5 -> 7", "c: 10 -> 14"]);
+    expect(d.history().undo).toEqual(["set a", "set b", "rewire", ""]);
+  });
+
+  test("Failed transactions are rolled back", () => {
+    const d = newDAG();
+    d.newVar("a", d.newNum(1));
+    d.newVar("b", d.newFunc("+", [d.newVarRef("a"), d.ONE]));
+    expect(d.getVar("b")?.latestValue.value).toBe(2);
+    const listener = jest.fn();
+    d.onChange("b", listener);
+
+    expect(() =>
+      d.transaction(() => {
+        d.setValue("a", d.newNum(10));
+        expect(d.getVar("b")?.latestValue.value).toBe(11);
+        d.setValue("new", d.newNum(3));
+        d.setValue("a", d.newVarRef("b"));
+      }),
+    ).toThrowError(new CircularReferenceError("Circular reference for variable: a"));
+    expect(d.getVar("a")?.value.debugValue()).toBe(1);
+    expect(d.getVar("b")?.latestValue.value).toBe(2);
+    expect(d.getVar("new")).toBeNull();
+    expect(listener).not.toHaveBeenCalled();
+
+    // Errors thrown from nested transactions only roll back their own edits
+    d.transaction(() => {
+      d.setValue("a", d.newNum(20));
+      try {
+        d.transaction(() => {
+          d.setValue("a", d.newNum(30));
+          throw new Error("Oops");
+        });
+      } catch (err) {
+        expect((err as Error).message).toBe("Oops");
+      }
+    });
+    expect(d.getVar("b")?.latestValue.value).toBe(21);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    // Plain setValue calls are transactions of their own
+    expect(() => d.setValue("a", d.newVarRef("b"))).toThrowError(CircularReferenceError);
+    expect(d.getVar("a")?.value.debugValue()).toBe(20);
+    expect(d.history().undo).toEqual(["set a", "set b", ""]);
+  });
+
+  test("Undo and redo", () => {
+    const d = newDAG();
+    const inner = d.newScope("inner");
+    d.newVar("x", d.newNum(1));
+    inner.newVar("y", inner.newFunc("*", [inner.newVarRef("x"), d.newNum(2)]));
+    d.clearHistory();
+    expect(d.canUndo).toBe(false);
+    expect(d.undo()).toBeNull();
+
+    d.transaction(() => {
+      d.setValue("x", d.newNum(5));
+      inner.setValue("x", d.newNum(100));
+    }, "hide x");
+    expect(d.getVar("inner.y")?.latestValue.value).toBe(200);
+    d.setValue("x", d.newNum(6));
+
+    const changes: string[] = [];
+    d.onAnyChange((v) => changes.push(v.qualifiedName));
+    expect(inner.undo()).toBe("set x");
+    expect(d.getVar("x")?.latestValue.value).toBe(5);
+    expect(d.undo()).toBe("hide x");
+    expect(inner.getVar("x")).toBe(d.getVar("x"));
+    expect(d.getVar("x")?.latestValue.value).toBe(1);
+    expect(d.getVar("inner.y")?.latestValue.value).toBe(2);
+    expect(changes).toEqual(["x", "x", "inner.y"]);
+    expect([d.canUndo, d.canRedo]).toEqual([false, true]);
+
+    expect(d.redo()).toBe("hide x");
+    expect(d.getVar("inner.y")?.latestValue.value).toBe(200);
+    expect(d.history()).toEqual({ undo: ["hide x"], redo: ["set x"] });
+    // New edits clear the redo history
+    d.setValue("x", d.newNum(7));
+    expect(d.canRedo).toBe(false);
+    expect(() => d.transaction(() => d.undo())).toThrowError(TransactionError);
+    expect(d.history().undo).toEqual(["hide x", "set x"]);
+
+    // History is bounded
+    d.historyLimit = 3;
+    for (let i = 0; i < 5; i++) d.setValue("x", d.newNum(i));
+    expect(d.history().undo.length).toBe(3);
+    d.undo();
+    d.undo();
+    d.undo();
+    expect(d.getVar("x")?.latestValue.value).toBe(1);
+    expect(d.canUndo).toBe(false);
+  });
+
+  test("Each edit outside a transaction is undone on its own", () => {
+    const d = newDAG();
+    const tax = d.newScope("tax");
+    d.newVar("a", d.newNum(1));
+    d.setValue("a", d.newNum(2));
+    tax.newVar("rate", d.newNum(0.2));
+    d.transaction(() => {
+      d.setValue("a", d.newNum(3));
+      d.setValue("b", d.newNum(4));
+    }, "batch");
+    d.setValue("b", null);
+    expect(d.history().undo).toEqual(["set a", "set a", "set tax.rate", "batch", "set b"]);
+
+    expect(d.undo()).toBe("set b");
+    expect(d.getVar("b")?.latestValue.value).toBe(4);
+    expect(d.undo()).toBe("batch");
+    expect([d.getVar("a")?.latestValue.value, d.getVar("b")]).toEqual([2, null]);
+    expect(d.undo()).toBe("set tax.rate");
+    expect(d.undo()).toBe("set a");
+    expect(d.getVar("a")?.latestValue.value).toBe(1);
+  });
+});
@@ -0,0 +1,39 @@
+import { DAG, ValueType } from "../core";
+import * as stdlib from "../stdlib";
+import { TypeChecker } from "../typecheck";
+
+describe("Type Checker Tests", () => {
+  test("Infer types of vars", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    d.newVar("x", d.newNum(3));
+    d.newVar("y", d.newNum(2.5));
+    d.newVar("s", d.newStr("hello"));
+    d.newVar("a", d.newFunc("+", [d.newVarRef("x"), d.newNum(1)]));
+    d.newVar("b", d.newFunc("*", [d.newVarRef("a"), d.newVarRef("y")]));
+    d.newVar("c", d.newFunc("round", [d.newVarRef("b")]));
+    d.newVar("u", d.newVarRef("undefined"));
+    const checker = new TypeChecker(d);
+    expect(checker.check()).toEqual([]);
+    expect(checker.typeOfVar("x")).toBe(ValueType.INT);
+    expect(checker.typeOfVar("s")).toBe(ValueType.STRING);
+    expect(checker.typeOfVar("a")).toBe(ValueType.INT);
+    expect(checker.typeOfVar("b")).toBe(ValueType.FLOAT);
+    expect(checker.typeOfVar("c")).toBe(ValueType.INT);
+    expect(checker.typeOfVar("u")).toBe(ValueType.ANY);
+  });
+
+  test("Report type errors", () => {
+    const d = stdlib.PopulateDAG(new DAG());
+    const bad = d.newStr("abc");
+    d.newVar("x", d.newFunc("*", [bad, d.newBool(true)]));
+    d.newVar("y", d.newFunc("unknown", [d.newNum(1)]));
+    d.newVar("z", d.newFunc("+", [d.newVarRef("x"), d.newNum(1)]));
+    const errors = new TypeChecker(d).check();
+    expect(errors.map((e) => [e.varname, e.message])).toEqual([
+      ["x", "Argument 1 of * expects INT | FLOAT | ARRAY but found STRING"],
+      ["x", "Argument 2 of * expects INT | FLOAT | ARRAY but found BOOL"],
+      ["y", "Unknown function: unknown"],
+    ]);
+    expect(errors[0].expr).toBe(bad);
+  });
+});
@@ -0,0 +1,142 @@
+import { DAG, ErrorCode, FuncType, Value } from "../core";
+import { BigIntBackend, Decimal, DecimalBackend, NumericBackend } from "../numeric";
+import { Interval, Normal, seededRandom } from "../uncertainty";
+import * as stdlib from "../stdlib";
+
+describe("Uncertainty Tests", () => {
+  const newDAG = () => stdlib.PopulateDAG(new DAG());
+  const num = (d: DAG, x: number) => d.newNum(x);
+  const ref = (d: DAG, name: string) => d.newVarRef(name);
+
+  test("Intervals are propagated through functions", () => {
+    const d = newDAG();
+    d.newVar("churn", d.newFunc("interval", [num(d, 0.03), num(d, 0.05)]));
+    d.newVar("customers", d.newFunc("interval", [num(d, 900), num(d, 1100)]));
+    d.newVar("lost", d.newFunc("*", [ref(d, "customers"), ref(d, "churn")]));
+    d.newVar("kept", d.newFunc("-", [ref(d, "customers"), ref(d, "lost")]));
+    d.newVar("price", num(d, 10));
+    d.newVar("x", d.newFunc("interval", [num(d, -1), num(d, 2)]));
+    // Turning points of functions within the bounds are included
+    d.newVar("square", d.newFunc("**", [ref(d, "x"), num(d, 2)]));
+    d.newVar("inverse", d.newFunc("/", [num(d, 1), ref(d, "x")]));
+    d.newVar("big", d.newFunc(">", [ref(d, "lost"), num(d, 40)]));
+    d.newVar("bonus", d.newFunc("if", [ref(d, "big"), num(d, 100), num(d, 0)]));
+
+    const bounds = d.intervals(["lost", "kept", "price", "square", "big", "bonus"]);
+    expect(bounds.lost.lo).toBeCloseTo(27);
+    expect(bounds.lost.hi).toBeCloseTo(55);
+    // Each reference is bounded independently
+    expect(bounds.kept.lo).toBeCloseTo(845);
+    expect(bounds.kept.hi).toBeCloseTo(1073);
+    expect(bounds.price).toEqual(new Interval(10, 10));
+    expect(bounds.square).toEqual(new Interval(0, 4));
+    expect(bounds.big).toEqual(new Interval(false, true));
+    expect(bounds.bonus).toEqual(new Interval(0, 100));
+    expect(d.getVar("inverse")?.latestValue.value.code).toBe(ErrorCode.DIV0);
+    expect(String(d.getVar("square")?.latestValue)).toBe("interval(0, 4)");
+
+    // Values that do not depend on the uncertain arguments stay certain
+    d.newVar("flag", d.newFunc("if", [d.TRUE, num(d, 1), ref(d, "x")]));
+    expect(d.getVar("flag")?.latestValue.value).toBe(1);
+  });
+
+  test("Custom functions participate", () => {
+    const d = newDAG();
+    const Clamp: FuncType = (dag: DAG, args: Value[]) =>
+      dag.newNum(Math.min(Math.max(args[0].value, args[1].value), args[2].value));
+    d.regFunc("clamp", Clamp, { paramNames: ["value", "lo", "hi"] });
+    d.newVar("demand", d.newFunc("normal", [num(d, 100), num(d, 20)]));
+    d.newVar("sold", d.newFunc("clamp", [ref(d, "demand"), num(d, 50), num(d, 120)]));
+    expect(d.intervals(["demand", "sold"])).toEqual({ demand: new Interval(40, 160), sold: new Interval(50, 120) });
+
+    const stats = d.simulate(["sold"], { samples: 2000, seed: 7 }).sold;
+    expect(stats.min).toBeGreaterThanOrEqual(50);
+    expect(stats.max).toBe(120);
+    expect(stats.mean).toBeGreaterThan(90);
+    expect(stats.mean).toBeLessThan(100);
+  });
+
+  test("Monte Carlo simulation", () => {
+    const d = newDAG();
+    d.newVar("revenue", d.newFunc("triangular", [num(d, 80), num(d, 100), num(d, 150)]));
+    d.newVar("cost", d.newFunc("uniform", [num(d, 60), num(d, 100)]));
+    d.newVar("profit", d.newFunc("-", [ref(d, "revenue"), ref(d, "cost")]));
+    d.newVar("loss", d.newFunc("<", [ref(d, "profit"), num(d, 0)]));
+    d.newVar("margin", d.newFunc("/", [ref(d, "profit"), ref(d, "revenue")]));
+    const listener = jest.fn();
+    d.onAnyChange(listener);
+
+    const options = { samples: 5000, seed: 42, percentiles: [5, 50, 95] };
+    const stats = d.simulate(["profit", "loss", "margin"], options);
+    expect(stats.profit.mean).toBeCloseTo(330 / 3 - 80, 0);
+    expect(stats.profit.percentiles[5]).toBeLessThan(stats.profit.percentiles[50]);
+    expect(stats.profit.percentiles[50]).toBeLessThan(stats.profit.percentiles[95]);
+    expect(stats.profit.min).toBeGreaterThanOrEqual(-20);
+    expect(stats.loss.mean).toBeGreaterThan(0.05);
+    expect(stats.loss.mean).toBeLessThan(0.3);
+    expect(stats.margin.errors).toBe(0);
+
+    // Draws are repeatable and do not touch the DAG
+    expect(d.simulate(["profit", "loss", "margin"], options)).toEqual(stats);
+    expect(listener).not.toHaveBeenCalled();
+    expect(d.getVar("profit")?.latestValue.value).toEqual(new Interval(-20, 90));
+    expect(d.history().undo.length).toBe(5);
+  });
+
+  test("Distributions", () => {
+    const random = seededRandom(3);
+    const samples = [...Array(20000)].map(() => new Normal(5, 2).sample(random));
+    const mean = samples.reduce((a, b) => a + b) / samples.length;
+    expect(mean).toBeCloseTo(5, 1);
+    expect(Math.sqrt(samples.reduce((a, b) => a + (b - mean) ** 2, 0) / samples.length)).toBeCloseTo(2, 1);
+    expect(new Normal(5, 2).equals(new Normal(5, 2))).toBe(true);
+    expect(String(new Normal(5, 2))).toBe("normal(5, 2)");
+
+    const d = newDAG();
+    d.newVar("bad", d.newFunc("interval", [num(d, 2), num(d, 1)]));
+    expect(d.getVar("bad")?.latestValue.value.code).toBe(ErrorCode.TYPE);
+  });
+
+  test("Exact numeric backends", () => {
+    const newExactDAG = (numeric: NumericBackend) => {
+      const d = newDAG();
+      d.numeric = numeric;
+      // Records the types of the values it is called with
+      const types: string[] = [];
+      d.regFunc("spy", (dag: DAG, args: Value[]) => {
+        types.push(args[0].value?.constructor.name);
+        return args[0];
+      });
+      return [d, types] as [DAG, string[]];
+    };
+
+    const [big, bigTypes] = newExactDAG(new BigIntBackend());
+    big.newVar("x", big.newFunc("interval", [big.parseNum("1"), big.parseNum("10")]));
+    big.newVar("y", big.newFunc("*", [big.newFunc("spy", [ref(big, "x")]), big.parseNum("2")]));
+    expect(big.intervals(["y"]).y).toEqual(new Interval(BigInt(2), BigInt(20)));
+    const stats = big.simulate(["y"], { samples: 2000, seed: 7 });
+    expect(new Set(bigTypes.slice(-2000))).toEqual(new Set(["BigInt"]));
+    expect(stats.y.errors).toBe(0);
+    expect(stats.y.min).toBeGreaterThanOrEqual(2);
+    expect(stats.y.max).toBeLessThanOrEqual(20);
+    expect(stats.y.mean).toBeCloseTo(10, 0);
+    // Distributions draw floats which are not integers
+    big.newVar("z", big.newFunc("uniform", [big.parseNum("1"), big.parseNum("10")]));
+    expect(() => big.simulate(["z"])).toThrowError(/Cannot draw bigint numbers from uniform\(1, 10\)/);
+
+    const [dec, decTypes] = newExactDAG(new DecimalBackend());
+    dec.newVar("x", dec.newFunc("interval", [dec.parseNum("0.1"), dec.parseNum("0.3")]));
+    dec.newVar("y", dec.newFunc("spy", [ref(dec, "x")]));
+    dec.newVar("n", dec.newFunc("normal", [dec.parseNum("1"), dec.parseNum("0.1")]));
+    dec.newVar("z", dec.newFunc("spy", [ref(dec, "n")]));
+    const bounds = dec.intervals(["x"]).x;
+    expect(bounds.lo).toBeInstanceOf(Decimal);
+    expect(bounds.contains(dec.parseNum("0.2").value, dec.numeric)).toBe(true);
+    expect(bounds.contains(dec.parseNum("0.31").value, dec.numeric)).toBe(false);
+    const decStats = dec.simulate(["y", "z"], { samples: 2000 });
+    // Each draw of x and n recomputes y and z
+    expect(new Set(decTypes.slice(-4000))).toEqual(new Set(["Decimal"]));
+    expect(decStats.y.mean).toBeCloseTo(0.2, 1);
+    expect(decStats.z.mean).toBeCloseTo(1, 1);
+  });
+});
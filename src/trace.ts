@@ -0,0 +1,196 @@
+import { DAG, Expr, ExprType, FuncCall, Tracer, Value, Var, VarRef } from "./core";
+
+/**
+ * JSON form of a TraceNode.
+ */
+export interface TraceJSON {
+  label: string;
+  value?: any;
+  units?: string;
+  error?: string;
+  cached: boolean;
+  time: number;
+  inputs: TraceJSON[];
+}
+
+export interface TraceFormatOptions {
+  /**
+   * Whether to include the time taken by each node.
+   */
+  times?: boolean;
+
+  /**
+   * Indentation used for each level of inputs.
+   */
+  indent?: string;
+}
+
+/**
+ * How the value of a variable, function call or variable reference was
+ * computed during an evaluation traced by DAG.explain.  Literal arguments
+ * of function calls are included as inputs too.
+ */
+export class TraceNode {
+  readonly inputs: TraceNode[] = [];
+  value: Value | null = null;
+  error: Error | null = null;
+  // Whether the value of the previous evaluation was reused
+  cached = true;
+  // Milliseconds taken including the inputs
+  time = 0;
+
+  /**
+   * The label is the name of the variable or function or, for literals, the
+   * value itself.
+   */
+  constructor(public readonly label: string, public readonly expr: Expr | null) {}
+
+  toJSON(): TraceJSON {
+    const out: TraceJSON = { label: this.label, cached: this.cached, time: this.time, inputs: [] };
+    if (this.value != null) {
+      out.value = this.value.value;
+      if (this.value.units != null) out.units = this.value.units.toString();
+    }
+    if (this.error != null) out.error = this.error.message;
+    out.inputs = this.inputs.map((n) => n.toJSON());
+    return out;
+  }
+
+  /**
+   * Renders the trace with one line per node and its inputs indented under
+   * it, eg:
+   *
+   * ```
+   * net = 15
+   *   - = 15
+   *     total = 30 (cached)
+   * ```
+   */
+  format(options: TraceFormatOptions = {}): string {
+    const indent = options.indent ?? "  ";
+    const lines: string[] = [];
+    const visit = (node: TraceNode, prefix: string) => {
+      let line = prefix + node.label;
+      if (node.error != null) {
+        line += " failed: " + node.error.message;
+      } else if (node.expr?.type != ExprType.VALUE) {
+        line += " = " + node.value;
+      }
+      if (node.cached && node.expr?.type != ExprType.VALUE) line += " (cached)";
+      if (options.times) line += ` [${node.time.toFixed(3)}ms]`;
+      lines.push(line);
+      node.inputs.forEach((input) => visit(input, prefix + indent));
+    };
+    visit(this, "");
+    return lines.join("\n");
+  }
+
+  toString(): string {
+    return this.format();
+  }
+}
+
+/**
+ * Tracer building a tree of TraceNodes for the function calls and variable
+ * references evaluated.  Any tracer already set on the DAG is still
+ * notified while recording.
+ */
+export class TraceRecorder implements Tracer {
+  protected stack: TraceNode[] = [];
+  protected starts: number[] = [];
+  protected previous: Tracer | null = null;
+  // Variables whose expressions have been traced
+  protected expanded = new Set<Var>();
+
+  constructor(public readonly dag: DAG) {}
+
+  /**
+   * Evaluates a variable (if needed) with this recorder as the tracer of
+   * the DAG and returns the trace of its evaluation.  The expressions of
+   * variables with cached values are traced too (once each) so the trace
+   * always shows how values were derived.  Errors are recorded in the trace
+   * instead of being thrown.
+   */
+  explain(v: Var): TraceNode {
+    const node = new TraceNode(v.qualifiedName, null);
+    node.cached = !v.isDirty && v.lastValue != null;
+    this.previous = this.dag.tracer;
+    this.dag.tracer = this;
+    this.stack = [node];
+    this.expanded.clear();
+    const start = performance.now();
+    try {
+      node.value = v.latestValue;
+      this.expand(v);
+    } catch (err) {
+      node.error = err as Error;
+    } finally {
+      node.time = performance.now() - start;
+      this.dag.tracer = this.previous;
+    }
+    return node;
+  }
+
+  enter(expr: Expr): void {
+    this.previous?.enter(expr);
+    if (expr.type == ExprType.FUNCCALL) {
+      this.stack.push(new TraceNode((expr as FuncCall).funcname, expr));
+    } else if (expr.type == ExprType.VARREF) {
+      this.stack.push(new TraceNode((expr as VarRef).name, expr));
+    } else {
+      return;
+    }
+    this.starts.push(performance.now());
+  }
+
+  exit(expr: Expr, value: Value | null, cached: boolean, error: Error | null): void {
+    this.previous?.exit(expr, value, cached, error);
+    if (expr.type != ExprType.FUNCCALL && expr.type != ExprType.VARREF) return;
+    if (expr.type == ExprType.VARREF && error == null) {
+      const v = expr.dag.getVar((expr as VarRef).name);
+      if (v != null) this.expand(v);
+    }
+    const node = this.stack.pop() as TraceNode;
+    node.time = performance.now() - (this.starts.pop() as number);
+    node.value = value;
+    node.error = error;
+    node.cached = cached;
+    if (expr.type == ExprType.FUNCCALL) this.addLiterals(node, expr as FuncCall);
+    // Inputs are read again once brought up to date
+    const parent = this.stack[this.stack.length - 1];
+    if (!cached || !parent.inputs.some((n) => n.expr === expr)) parent.inputs.push(node);
+  }
+
+  /**
+   * Traces the expression of a variable under the node on top of the stack
+   * unless it was traced already.
+   */
+  protected expand(v: Var): void {
+    if (this.expanded.has(v)) return;
+    this.expanded.add(v);
+    const top = this.stack[this.stack.length - 1];
+    if (top.inputs.length == 0) v.value.latestValue;
+  }
+
+  /**
+   * Adds the literal arguments of a call to its inputs so that inputs are in
+   * the order of the arguments.  Lazy functions may not use all their
+   * arguments so only the arguments evaluated are included for them.
+   */
+  protected addLiterals(node: TraceNode, call: FuncCall): void {
+    if (this.dag.getFuncInfo(call.funcname)?.lazy || !call.args.some((a) => a.type == ExprType.VALUE)) return;
+    const evaluated = node.inputs.splice(0);
+    for (const arg of call.args) {
+      if (arg.type == ExprType.VALUE) {
+        const literal = new TraceNode(String(arg), arg);
+        literal.value = arg as Value;
+        node.inputs.push(literal);
+      } else {
+        const index = evaluated.findIndex((n) => n.expr === arg);
+        if (index >= 0) node.inputs.push(...evaluated.splice(index, 1));
+      }
+    }
+    // eg evaluations of lambdas called by the function
+    node.inputs.push(...evaluated);
+  }
+}
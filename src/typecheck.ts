@@ -0,0 +1,113 @@
+import { DAG, Expr, ExprType, FuncCall, ParamType, Value, ValueType, VarRef } from "./core";
+
+/**
+ * A type error found in the expression of a variable.
+ */
+export class ExprTypeError extends Error {
+  constructor(message: string, public readonly varname: string | null, public readonly expr: Expr) {
+    super(message);
+  }
+}
+
+/**
+ * Returns true if a value of type "found" can be passed where "expected" is required.
+ */
+export function isAssignable(found: ValueType, expected: ParamType): boolean {
+  if (Array.isArray(expected)) {
+    return expected.some((e) => isAssignable(found, e));
+  }
+  return (
+    found == expected ||
+    found == ValueType.ANY ||
+    expected == ValueType.ANY ||
+    (found == ValueType.INT && expected == ValueType.FLOAT)
+  );
+}
+
+export function typeName(t: ParamType): string {
+  return Array.isArray(t) ? t.map((x) => ValueType[x]).join(" | ") : ValueType[t];
+}
+
+/**
+ * Infers the types of variables in a DAG from the signatures of the functions
+ * they call and reports type errors without evaluating anything.
+ */
+export class TypeChecker {
+  readonly varTypes = new Map<string, ValueType>();
+  errors: ExprTypeError[] = [];
+
+  constructor(public dag: DAG) {}
+
+  /**
+   * Infers the type of every variable in the DAG and returns all errors found.
+   */
+  check(): ExprTypeError[] {
+    this.varTypes.clear();
+    this.errors = [];
+    for (const name of this.dag.varNames()) {
+      this.typeOfVar(name);
+    }
+    return this.errors;
+  }
+
+  /**
+   * Returns the inferred type of a variable.  Undefined variables are of type ANY.
+   */
+  typeOfVar(varname: string): ValueType {
+    let out = this.varTypes.get(varname);
+    if (out === undefined) {
+      const v = this.dag.getVar(varname);
+      out = v == null ? ValueType.ANY : this.typeOf(v.value, varname);
+      this.varTypes.set(varname, out);
+    }
+    return out;
+  }
+
+  /**
+   * Returns the inferred type of an expression found in the given variable.
+   */
+  typeOf(expr: Expr, varname: string | null = null): ValueType {
+    if (expr.type == ExprType.VALUE) {
+      return (expr as Value).valueType;
+    } else if (expr.type == ExprType.VARREF) {
+      return this.typeOfVar((expr as VarRef).name);
+    } else if (expr.type == ExprType.FUNCCALL) {
+      return this.typeOfCall(expr as FuncCall, varname);
+    } else if (expr.type == ExprType.LAMBDA) {
+      return ValueType.FUNCTION;
+    }
+    return ValueType.ANY;
+  }
+
+  protected typeOfCall(call: FuncCall, varname: string | null): ValueType {
+    const argTypes = call.args.map((a) => this.typeOf(a, varname));
+    const info = this.dag.getFuncInfo(call.funcname);
+    if (info == null) {
+      this.errors.push(new ExprTypeError("Unknown function: " + call.funcname, varname, call));
+      return ValueType.ANY;
+    }
+    const paramTypes = info.paramTypes || [];
+    for (let i = 0; i < argTypes.length && paramTypes.length > 0; i++) {
+      const expected = paramTypes[Math.min(i, paramTypes.length - 1)];
+      if (!isAssignable(argTypes[i], expected)) {
+        this.errors.push(
+          new ExprTypeError(
+            `Argument ${i + 1} of ${call.funcname} expects ${typeName(expected)} but found ${typeName(argTypes[i])}`,
+            varname,
+            call.args[i],
+          ),
+        );
+      }
+    }
+    const returnType = info.returnType;
+    if (returnType === undefined) return ValueType.ANY;
+    return typeof returnType === "function" ? returnType(argTypes) : returnType;
+  }
+}
+
+/**
+ * Type checks all variables in a DAG and returns the errors found.
+ */
+export function typeCheck(dag: DAG): ExprTypeError[] {
+  return new TypeChecker(dag).check();
+}
@@ -0,0 +1,398 @@
+import { DAG, FuncInfo, InvalidRefError, Units, Value, ValueTypeError } from "./core";
+import { FLOAT, NumericBackend } from "./numeric";
+
+/**
+ * A value only known to be within [lo, hi], eg churn = interval(0.03, 0.05).
+ * Sampled uniformly by DAG.simulate.  Bounds of comparisons are booleans,
+ * ie interval(false, true) when either result is possible.  Bounds may be
+ * numbers of the DAG's numeric backend so arithmetic on them goes through it.
+ */
+export class Interval {
+  constructor(public readonly lo: any, public readonly hi: any) {}
+
+  get bounds(): Interval {
+    return this;
+  }
+
+  /**
+   * Draws a number within the bounds.  The random fraction is taken as a
+   * ratio of integers so backends only working with integers draw integers.
+   */
+  sample(random: () => number, numeric: NumericBackend = FLOAT): any {
+    const steps = numeric.from(2 ** 32);
+    const step = numeric.from(Math.floor(random() * 2 ** 32));
+    const offset = numeric.div(numeric.mul(numeric.sub(this.hi, this.lo), step), steps);
+    return numeric.add(this.lo, offset);
+  }
+
+  /**
+   * Whether x is within the bounds.
+   */
+  contains(x: any, numeric: NumericBackend = FLOAT): boolean {
+    return compareBounds(numeric, this.lo, x) <= 0 && compareBounds(numeric, x, this.hi) <= 0;
+  }
+
+  equals(another: any): boolean {
+    return another instanceof Interval && sameBound(another.lo, this.lo) && sameBound(another.hi, this.hi);
+  }
+
+  toString(): string {
+    return `interval(${this.lo}, ${this.hi})`;
+  }
+}
+
+/**
+ * A probability distribution a value is drawn from by DAG.simulate.  Other
+ * evaluations use its bounds (see Interval).
+ */
+export abstract class Distribution {
+  abstract readonly bounds: Interval;
+  abstract readonly mean: number;
+
+  /**
+   * Draws a value given a source of uniform random numbers in [0, 1).
+   */
+  abstract sample(random: () => number): number;
+
+  protected abstract get params(): number[];
+
+  equals(another: any): boolean {
+    return (
+      another instanceof Distribution &&
+      another.constructor === this.constructor &&
+      another.params.every((p, i) => Object.is(p, this.params[i]))
+    );
+  }
+
+  toString(): string {
+    return `${this.constructor.name.toLowerCase()}(${this.params.join(", ")})`;
+  }
+}
+
+export class Normal extends Distribution {
+  /**
+   * Normal distributions are unbounded so their bounds are taken to be this
+   * many standard deviations from the mean.
+   */
+  static SIGMAS = 3;
+
+  constructor(public readonly mean: number, public readonly stddev: number) {
+    super();
+  }
+
+  get bounds(): Interval {
+    return new Interval(this.mean - Normal.SIGMAS * this.stddev, this.mean + Normal.SIGMAS * this.stddev);
+  }
+
+  sample(random: () => number): number {
+    // Box-Muller
+    const u = 1 - random();
+    return this.mean + this.stddev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  }
+
+  protected get params(): number[] {
+    return [this.mean, this.stddev];
+  }
+}
+
+export class Uniform extends Distribution {
+  constructor(public readonly lo: number, public readonly hi: number) {
+    super();
+  }
+
+  get bounds(): Interval {
+    return new Interval(this.lo, this.hi);
+  }
+
+  get mean(): number {
+    return (this.lo + this.hi) / 2;
+  }
+
+  sample(random: () => number): number {
+    return this.lo + (this.hi - this.lo) * random();
+  }
+
+  protected get params(): number[] {
+    return [this.lo, this.hi];
+  }
+}
+
+export class Triangular extends Distribution {
+  constructor(public readonly lo: number, public readonly mode: number, public readonly hi: number) {
+    super();
+  }
+
+  get bounds(): Interval {
+    return new Interval(this.lo, this.hi);
+  }
+
+  get mean(): number {
+    return (this.lo + this.mode + this.hi) / 3;
+  }
+
+  sample(random: () => number): number {
+    // Inverse of the cumulative distribution
+    const [a, c, b] = [this.lo, this.mode, this.hi];
+    const u = random();
+    const split = (c - a) / (b - a);
+    return u < split ? a + Math.sqrt(u * (b - a) * (c - a)) : b - Math.sqrt((1 - u) * (b - a) * (b - c));
+  }
+
+  protected get params(): number[] {
+    return [this.lo, this.mode, this.hi];
+  }
+}
+
+export type Uncertain = Interval | Distribution;
+
+/**
+ * Compares bounds which are either booleans or numbers of the backend.
+ */
+function compareBounds(numeric: NumericBackend, a: any, b: any): number {
+  return typeof a === "boolean" || typeof b === "boolean" ? Number(a) - Number(b) : numeric.compare(a, b);
+}
+
+function sameBound(a: any, b: any): boolean {
+  return Object.is(a, b) || (typeof a === "object" && a !== null && typeof a.equals === "function" && a.equals(b));
+}
+
+export function isUncertain(value: any): value is Uncertain {
+  return value instanceof Interval || value instanceof Distribution;
+}
+
+/**
+ * Maximum number of combinations of the bounds of uncertain arguments a
+ * single call is evaluated with.
+ */
+const MAX_COMBINATIONS = 4096;
+
+/**
+ * Evaluates a call with uncertain arguments by calling it with every
+ * combination of the bounds of those arguments (and any turning points of
+ * the function within them) and returns an Interval bounding the results.
+ * This is exact for functions that are monotonic in each argument between
+ * turning points, like most arithmetic, and works for any registered
+ * function.  The same uncertain value passed twice is bounded independently
+ * so results may be wider than necessary, eg x - x.
+ *
+ * run is called with a function mapping each argument value (and its index)
+ * to the value to call the function with.  Arguments are mapped as they are
+ * used so lazy functions only combine the arguments they evaluate, eg an
+ * uncertain condition takes both branches of an if.  Error (and pending)
+ * results are returned as is.
+ */
+export function evalBounds(info: FuncInfo, run: (pick: (value: Value, index: number) => Value) => Value): Value {
+  // Index of the point chosen for each uncertain argument (in the order used)
+  const choices: number[] = [];
+  const numPoints: number[] = [];
+  const results: Value[] = [];
+  for (;;) {
+    let depth = 0;
+    const result = run((value, index) => {
+      if (!isUncertain(value.value)) return value;
+      const points = pointsWithin(value.dag.numeric, value.value.bounds, info.turningPoints?.(index) || []);
+      if (depth == choices.length) {
+        choices.push(0);
+        numPoints.push(points.length);
+      }
+      return new Value(value.dag, points[choices[depth++]], value.units);
+    });
+    if (result.isError || result.isPending) return result;
+    results.push(result);
+    if (results.length > MAX_COMBINATIONS) {
+      throw new ValueTypeError("Too many combinations of uncertain arguments for: " + info.name);
+    }
+    // Next combination, depth first
+    while (choices.length > 0 && choices[choices.length - 1] == numPoints[numPoints.length - 1] - 1) {
+      choices.pop();
+      numPoints.pop();
+    }
+    if (choices.length == 0) break;
+    choices[choices.length - 1]++;
+  }
+  return union(results);
+}
+
+function pointsWithin(numeric: NumericBackend, bounds: Interval, turningPoints: any[]): any[] {
+  if (sameBound(bounds.lo, bounds.hi)) return [bounds.lo];
+  const within = (p: any) => compareBounds(numeric, bounds.lo, p) < 0 && compareBounds(numeric, p, bounds.hi) < 0;
+  return [bounds.lo, bounds.hi, ...turningPoints.filter(within)];
+}
+
+/**
+ * Smallest value containing all the given values - the value itself if they
+ * are all the same or an Interval of numbers (or booleans).
+ */
+function union(values: Value[]): Value {
+  const first = values[0];
+  if (values.every((v) => v.equals(first))) return first;
+  const numeric = first.dag.numeric;
+  let lo: any = null;
+  let hi: any = null;
+  for (const v of values) {
+    const bounds = isUncertain(v.value) ? v.value.bounds : new Interval(v.value, v.value);
+    for (const x of [bounds.lo, bounds.hi]) {
+      if (!["number", "boolean", "bigint"].includes(typeof x) && !first.dag.numeric.isNumber(x)) {
+        throw new ValueTypeError("Cannot bound values of uncertain arguments: " + v);
+      }
+    }
+    if (lo == null || compareBounds(numeric, bounds.lo, lo) < 0) lo = bounds.lo;
+    if (hi == null || compareBounds(numeric, bounds.hi, hi) > 0) hi = bounds.hi;
+  }
+  return new Value(first.dag, new Interval(lo, hi), first.units);
+}
+
+/**
+ * Returns the bounds of the values of the given variables (see
+ * DAG.intervals).
+ */
+export function intervals(dag: DAG, varnames: string[]): { [varname: string]: Interval } {
+  const out: { [varname: string]: Interval } = {};
+  for (const name of varnames) {
+    const value = dag.getVar(name)?.latestValue;
+    if (value == null) throw new InvalidRefError("Invalid reference: " + name);
+    if (isUncertain(value.value)) {
+      out[name] = value.value.bounds;
+    } else if (typeof value.value === "boolean" || dag.numeric.isNumber(value.value)) {
+      out[name] = new Interval(value.value, value.value);
+    } else {
+      throw new TypeError(`Cannot bound ${name}: ${value}`);
+    }
+  }
+  return out;
+}
+
+export interface SimulateOptions {
+  /**
+   * Number of draws, 1000 by default.
+   */
+  samples?: number;
+
+  /**
+   * Seed of the random numbers so that simulations can be repeated.
+   */
+  seed?: number;
+
+  /**
+   * Percentiles (0 - 100) to report, [5, 50, 95] by default.
+   */
+  percentiles?: number[];
+}
+
+/**
+ * Summary statistics of the values of a variable over the draws of a
+ * simulation.  Booleans are counted as 0 and 1 so the mean of a condition
+ * is the probability of it being true.  Draws evaluating to errors are not
+ * included in the statistics but are counted.
+ */
+export interface SampleSummary {
+  mean: number;
+  stddev: number;
+  min: number;
+  max: number;
+  percentiles: { [percentile: number]: number };
+  units: Units | null;
+  errors: number;
+}
+
+/**
+ * Returns a generator of uniform random numbers in [0, 1) (mulberry32).
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Runs a Monte Carlo simulation of the given variables (see DAG.simulate).
+ */
+export function simulate(
+  dag: DAG,
+  varnames: string[],
+  options: SimulateOptions = {},
+): { [varname: string]: SampleSummary } {
+  const outputs = varnames.map((name) => dag.getVar(name)?.qualifiedName ?? name);
+  const root = dag.root;
+  // Variables whose values are uncertain without their inputs being so
+  const isSource = (name: string) =>
+    isUncertain(root.getVar(name)?.latestValue.value) &&
+    root.dependencies(name).every((dep) => !isUncertain(root.getVar(dep)?.latestValue.value));
+  const sources = [...new Set(outputs.flatMap((name) => [...root.dependencies(name, { transitive: true }), name]))]
+    .filter(isSource)
+    .map((name) => [name, root.getVar(name)!.latestValue] as [string, Value]);
+
+  const scratch = root.clone();
+  const random = seededRandom(options.seed ?? 1);
+  const samples = outputs.map(() => [] as number[]);
+  const units = outputs.map(() => null as Units | null);
+  const errors = outputs.map(() => 0);
+  const numSamples = options.samples ?? 1000;
+  for (let i = 0; i < numSamples; i++) {
+    scratch.transaction(() => {
+      for (const [name, value] of sources) {
+        scratch.setValue(name, new Value(scratch, draw(scratch.numeric, value.value, random), value.units));
+      }
+    });
+    outputs.forEach((name, j) => {
+      const value = scratch.getVar(name)!.latestValue;
+      if (value.isError) {
+        errors[j]++;
+      } else if (typeof value.value === "boolean") {
+        samples[j].push(Number(value.value));
+        units[j] = value.units;
+      } else if (scratch.numeric.isNumber(value.value)) {
+        samples[j].push(scratch.numeric.toNumber(value.value));
+        units[j] = value.units;
+      } else {
+        throw new TypeError(`Cannot summarise non numeric values of ${name}: ${value}`);
+      }
+    });
+  }
+  const out: { [varname: string]: SampleSummary } = {};
+  varnames.forEach((name, j) => {
+    out[name] = { ...summarise(samples[j], options.percentiles ?? [5, 50, 95]), units: units[j], errors: errors[j] };
+  });
+  return out;
+}
+
+/**
+ * Draws a number of the backend from an uncertain value.  Distributions draw
+ * floats which must be representable by the backend.
+ */
+function draw(numeric: NumericBackend, value: Uncertain, random: () => number): any {
+  if (value instanceof Interval) return value.sample(random, numeric);
+  const x = value.sample(random);
+  try {
+    return numeric.from(x);
+  } catch (_) {
+    throw new TypeError(`Cannot draw ${numeric.name} numbers from ${value}, found: ${x}`);
+  }
+}
+
+function summarise(samples: number[], percentiles: number[]): Omit<SampleSummary, "units" | "errors"> {
+  const n = samples.length;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const mean = samples.reduce((a, b) => a + b, 0) / n;
+  const variance = n > 1 ? samples.reduce((a, b) => a + (b - mean) ** 2, 0) / (n - 1) : 0;
+  const out = {
+    mean: mean,
+    stddev: Math.sqrt(variance),
+    min: sorted[0] ?? NaN,
+    max: sorted[n - 1] ?? NaN,
+    percentiles: {} as { [percentile: number]: number },
+  };
+  for (const p of percentiles) {
+    // Linear interpolation between the closest ranks
+    const rank = (p / 100) * (n - 1);
+    const below = Math.floor(rank);
+    const above = Math.min(below + 1, n - 1);
+    out.percentiles[p] = n == 0 ? NaN : sorted[below] + (sorted[above] - sorted[below]) * (rank - below);
+  }
+  return out;
+}